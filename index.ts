@@ -1,36 +1,93 @@
 import express from "express";
-import screenDealRouter from "./routes/screen-deal";
+import { randomUUID } from "crypto";
+import pubsubJobsRouter from "./routes/pubsub-jobs";
 import fileUploadRouter from "./routes/file-upload";
+import screenersRouter from "./routes/screeners";
+import jobsRouter from "./routes/jobs";
+import queueRouter from "./routes/queue";
+import bitrixWebhookRouter from "./routes/bitrix-webhook";
+import usageRouter from "./routes/usage";
+import dealsRouter from "./routes/deals";
+import retrievalRouter from "./routes/retrieval";
+import metricsRouter from "./routes/metrics";
+import batchesRouter from "./routes/batches";
 import redis from "./lib/redis";
+import { keepRawBody } from "./lib/auth/api-auth";
+import { closeJobUpdatesSubscriber } from "./lib/jobs/job-events";
+import {
+  startQueueWorker,
+  stopQueueWorker,
+} from "./lib/queue/deal-listings-queue";
+import {
+  startBitrixSyncRetries,
+  stopBitrixSyncRetries,
+} from "./lib/bitrix/push-screening";
+import { logger } from "./lib/observability/logger";
+import { runWithJobContext } from "./lib/observability/context";
+import { checkReadiness } from "./lib/observability/readiness";
+import { drainInFlightJobs, isDraining } from "./lib/jobs/in-flight";
 
 const app = express();
 
 // Middleware
-app.use(express.json({ limit: "10mb" }));
-app.use(express.urlencoded({ extended: true, limit: "10mb" }));
+app.use(express.json({ limit: "10mb", verify: keepRawBody }));
+app.use(
+  express.urlencoded({ extended: true, limit: "10mb", verify: keepRawBody })
+);
+
+// Tag every log line of a request with its Cloud Run trace id
+app.use((req, res, next) => {
+  const requestId =
+    req.get("x-cloud-trace-context")?.split("/")[0] ||
+    req.get("x-request-id") ||
+    randomUUID();
+  runWithJobContext({ requestId }, next);
+});
 
 // Health check endpoint with Redis status
 app.get("/", (req, res) => {
-  console.log("Root check");
+  logger.debug("Root check");
   res.send("OK");
 });
 
 app.get("/health", async (req, res) => {
-  console.log("Health check");
+  logger.debug("Health check");
 
   const health = {
     status: "OK",
     timestamp: new Date().toISOString(),
-    redis: redis ? "connected" : "not configured",
+    redis: redis ? redis.status : "not configured",
     uptime: process.uptime(),
   };
 
   res.json(health);
 });
 
+// Readiness probe: fails while shutting down or when a dependency is down
+app.get("/ready", async (req, res) => {
+  if (isDraining()) {
+    return res.status(503).json({ ready: false, status: "draining" });
+  }
+
+  const report = await checkReadiness();
+  if (!report.ready) {
+    logger.warn("Readiness check failed", { checks: report.checks });
+  }
+  res.status(report.ready ? 200 : 503).json(report);
+});
+
 // Mount route modules
-app.use(screenDealRouter);
+app.use(pubsubJobsRouter);
 app.use(fileUploadRouter);
+app.use(screenersRouter);
+app.use(jobsRouter);
+app.use(queueRouter);
+app.use(bitrixWebhookRouter);
+app.use(usageRouter);
+app.use(dealsRouter);
+app.use(retrievalRouter);
+app.use(metricsRouter);
+app.use(batchesRouter);
 
 // Error handling middleware
 app.use(
@@ -40,7 +97,7 @@ app.use(
     res: express.Response,
     next: express.NextFunction
   ) => {
-    console.error("Unhandled error:", err);
+    logger.error("Unhandled error", { error: err });
     res.status(500).json({ error: "Internal server error" });
   }
 );
@@ -54,35 +111,64 @@ const PORT = Number(process.env.PORT) || 8080;
 const HOST = process.env.HOST || "0.0.0.0";
 
 const server = app.listen(PORT, HOST, () => {
-  console.log(`Worker HTTP server listening on ${HOST}:${PORT}`);
+  logger.info(`Worker HTTP server listening on ${HOST}:${PORT}`);
+
+  if (process.env.QUEUE_WORKER_ENABLED === "true") {
+    startQueueWorker();
+  }
+  startBitrixSyncRetries();
 });
 
+// Cloud Run sends SIGKILL 10 seconds after SIGTERM
+const SHUTDOWN_DRAIN_MS = Number(process.env.SHUTDOWN_DRAIN_MS) || 8000;
+
+let shuttingDown = false;
+
 // Graceful shutdown for Google Cloud Run
 const gracefulShutdown = async (signal: string) => {
-  console.log(`Received ${signal}, starting graceful shutdown...`);
-
-  server.close(async () => {
-    console.log("HTTP server closed");
-
-    // Close Redis connection if it exists
-    if (redis) {
-      try {
-        await redis.quit();
-        console.log("Redis connection closed");
-      } catch (error) {
-        console.error("Error closing Redis connection:", error);
-      }
-    }
-
-    console.log("Graceful shutdown complete");
-    process.exit(0);
-  });
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info(`Received ${signal}, starting graceful shutdown...`);
 
-  // Force close after 30 seconds
+  // Force close if draining or closing connections hangs
   setTimeout(() => {
-    console.error("Forced shutdown after timeout");
+    logger.error("Forced shutdown after timeout");
     process.exit(1);
-  }, 30000);
+  }, SHUTDOWN_DRAIN_MS + 2000).unref();
+
+  // Stop accepting connections; in-flight requests keep running
+  server.close(() => logger.info("HTTP server closed"));
+  stopBitrixSyncRetries();
+
+  // Don't let the worker's current item hold shutdown past the deadline,
+  // draining hands it back to the queue instead
+  const drain = drainInFlightJobs(SHUTDOWN_DRAIN_MS);
+  const workerStopped = stopQueueWorker().catch((error) =>
+    logger.error("Error stopping queue worker", { error })
+  );
+
+  const abandoned = await drain;
+  if (abandoned.length > 0) {
+    logger.warn(`Abandoned ${abandoned.length} in-flight jobs`, { abandoned });
+  }
+  await Promise.race([
+    workerStopped,
+    new Promise((resolve) => setTimeout(resolve, 500)),
+  ]);
+
+  // Close Redis connection if it exists
+  if (redis) {
+    try {
+      await closeJobUpdatesSubscriber();
+      await redis.quit();
+      logger.info("Redis connection closed");
+    } catch (error) {
+      logger.error("Error closing Redis connection", { error });
+    }
+  }
+
+  logger.info("Graceful shutdown complete");
+  process.exit(0);
 };
 
 // Handle termination signals
@@ -91,11 +177,11 @@ process.on("SIGINT", () => gracefulShutdown("SIGINT"));
 
 // Handle uncaught exceptions
 process.on("uncaughtException", (error) => {
-  console.error("Uncaught Exception:", error);
+  logger.error("Uncaught Exception", { error });
   gracefulShutdown("uncaughtException");
 });
 
 process.on("unhandledRejection", (reason, promise) => {
-  console.error("Unhandled Rejection at:", promise, "reason:", reason);
+  logger.error("Unhandled Rejection", { error: reason });
   gracefulShutdown("unhandledRejection");
 });
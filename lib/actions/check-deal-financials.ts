@@ -0,0 +1,52 @@
+import prismaDB from "../prisma";
+import { financialRulesSchema } from "../schemas/financial-rules-schema";
+import {
+  getScreenerFinancialRules,
+  runFinancialChecks,
+} from "../screening/financial-checks";
+
+/**
+ * Runs the financial checks on a deal without screening it, against a
+ * screener's rules or only the data checks
+ * @returns The metrics and flags, or an error with the HTTP status to respond with
+ */
+export async function checkDealFinancials(dealId: string, screenerId?: string) {
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: {
+      revenue: true,
+      ebitda: true,
+      ebitdaMargin: true,
+      grossRevenue: true,
+      askingPrice: true,
+    },
+  });
+  if (!deal) {
+    return { success: false as const, status: 404, error: "Deal not found" };
+  }
+
+  if (screenerId) {
+    const screener = await prismaDB.screener.findFirst({
+      where: { id: screenerId },
+      select: { id: true },
+    });
+    if (!screener) {
+      return {
+        success: false as const,
+        status: 404,
+        error: "Screener not found",
+      };
+    }
+  }
+
+  const rules = screenerId
+    ? await getScreenerFinancialRules(screenerId)
+    : financialRulesSchema.parse({});
+
+  return {
+    success: true as const,
+    dealId,
+    screenerId: screenerId ?? null,
+    checks: runFinancialChecks(deal, rules),
+  };
+}
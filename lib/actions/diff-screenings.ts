@@ -0,0 +1,127 @@
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { criterionKey } from "../screening/criteria";
+
+const screeningInclude = {
+  ScreeningCriterionResult: { orderBy: { position: "asc" } },
+  screenerVersion: {
+    select: { id: true, screenerId: true, version: true, contentHash: true },
+  },
+} satisfies Prisma.AiScreeningInclude;
+
+type ScreeningWithResults = Prisma.AiScreeningGetPayload<{
+  include: typeof screeningInclude;
+}>;
+
+const summarize = (screening: ScreeningWithResults) => ({
+  id: screening.id,
+  createdAt: screening.createdAt,
+  title: screening.title,
+  score: screening.score,
+  sentiment: screening.sentiment,
+  screenerId: screening.screenerId,
+  screenerVersion: screening.screenerVersion?.version ?? null,
+  promptVersion: screening.promptVersion,
+  models: screening.models,
+});
+
+const toVerdict = (
+  result: ScreeningWithResults["ScreeningCriterionResult"][number]
+) => ({
+  verdict: result.verdict,
+  weight: result.weight,
+  evidence: result.evidence,
+});
+
+/**
+ * Compares two screenings of the same deal: what produced them, the score
+ * and sentiment, and which criteria were added, removed or changed verdict
+ * @param dealId - The deal both screenings belong to
+ * @param fromId - The earlier screening
+ * @param toId - The later screening
+ */
+export async function diffScreenings(
+  dealId: string,
+  fromId: string,
+  toId: string
+) {
+  const [from, to] = await Promise.all([
+    prismaDB.aiScreening.findFirst({
+      where: { id: fromId, dealId },
+      include: screeningInclude,
+    }),
+    prismaDB.aiScreening.findFirst({
+      where: { id: toId, dealId },
+      include: screeningInclude,
+    }),
+  ]);
+
+  if (!from || !to) {
+    return {
+      success: false as const,
+      status: 404,
+      error: `Screening ${from ? toId : fromId} not found for deal ${dealId}`,
+    };
+  }
+
+  const fromResults = new Map(
+    from.ScreeningCriterionResult.map((result) => [
+      criterionKey(result.criterion),
+      result,
+    ])
+  );
+  const toResults = new Map(
+    to.ScreeningCriterionResult.map((result) => [
+      criterionKey(result.criterion),
+      result,
+    ])
+  );
+
+  const added = [...toResults]
+    .filter(([key]) => !fromResults.has(key))
+    .map(([, result]) => ({
+      criterion: result.criterion,
+      ...toVerdict(result),
+    }));
+  const removed = [...fromResults]
+    .filter(([key]) => !toResults.has(key))
+    .map(([, result]) => ({
+      criterion: result.criterion,
+      ...toVerdict(result),
+    }));
+
+  const changed = [];
+  let unchanged = 0;
+  for (const [key, toResult] of toResults) {
+    const fromResult = fromResults.get(key);
+    if (!fromResult) continue;
+    if (
+      fromResult.verdict === toResult.verdict &&
+      fromResult.weight === toResult.weight
+    ) {
+      unchanged++;
+      continue;
+    }
+    changed.push({
+      criterion: toResult.criterion,
+      from: toVerdict(fromResult),
+      to: toVerdict(toResult),
+    });
+  }
+
+  return {
+    success: true as const,
+    diff: {
+      from: summarize(from),
+      to: summarize(to),
+      scoreDelta:
+        from.score !== null && to.score !== null ? to.score - from.score : null,
+      screenerChanged:
+        from.screenerId !== to.screenerId ||
+        from.screenerVersion?.contentHash !== to.screenerVersion?.contentHash,
+      promptChanged: from.promptVersion !== to.promptVersion,
+      modelsChanged: JSON.stringify(from.models) !== JSON.stringify(to.models),
+      criteria: { added, removed, changed, unchanged },
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import prismaDB from "../prisma";
+import { logger } from "../observability/logger";
+import { indexDealDocument } from "../retrieval/retrieval-index";
+import { extractDocumentText } from "../documents/extract-text";
+import { downloadDocument } from "../documents/download";
+
+/**
+ * Downloads a stored deal document from its URL on an allowed storage host
+ * and (re-)extracts its text, e.g. for documents the main app uploaded
+ * without going through /file-upload
+ * @param documentId - The DealDocument to extract
+ * @param signal - Aborts the download
+ * @returns The updated document, or an error with the HTTP status to respond with
+ */
+export async function extractDealDocument(
+  documentId: string,
+  signal?: AbortSignal
+) {
+  const document = await prismaDB.dealDocument.findFirst({
+    where: { id: documentId },
+  });
+
+  if (!document) {
+    return {
+      success: false as const,
+      status: 404,
+      error: "Document not found",
+    };
+  }
+
+  // documentUrl falls back to the file name when the upload had no URL
+  if (!/^https?:\/\//.test(document.documentUrl)) {
+    return {
+      success: false as const,
+      status: 422,
+      error: "Document has no downloadable URL",
+    };
+  }
+
+  const download = await downloadDocument(document.documentUrl, signal);
+  if (!download.success) return download;
+
+  const urlPath = new URL(document.documentUrl).pathname;
+  const fileName =
+    document.fileName || decodeURIComponent(urlPath.split("/").pop() ?? "");
+  const mimeType =
+    document.mimeType ||
+    download.contentType?.split(";")[0]?.trim() ||
+    "";
+  const extraction = await extractDocumentText(
+    download.body,
+    mimeType,
+    fileName
+  );
+
+  if (!extraction.success) {
+    return {
+      success: false as const,
+      status: extraction.reason === "unsupported" ? 415 : 422,
+      error: extraction.message,
+    };
+  }
+
+  const updated = await prismaDB.dealDocument.update({
+    where: { id: document.id },
+    data: { extractedText: extraction.text },
+  });
+
+  logger.info(
+    `Extracted ${extraction.format} document ${document.id} of deal ${document.dealId} (${extraction.text.length} characters)`
+  );
+
+  await indexDealDocument(updated);
+
+  return {
+    success: true as const,
+    document: updated,
+  };
+}
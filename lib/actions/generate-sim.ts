@@ -0,0 +1,132 @@
+import { SIMStatus } from "@prisma/client";
+import prismaDB from "../prisma";
+import { buildSimDocument } from "../sim/content";
+import { renderSimDocx, renderSimPdf } from "../sim/render";
+import { getStorageBackend } from "../storage/storage";
+import { logger } from "../observability/logger";
+
+const PDF_MIME_TYPE = "application/pdf";
+const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+type GenerateSimOptions = {
+  // Fill in a SIM row the main app already created instead of a new one
+  simId?: string;
+  // Aborts the model call, e.g. when the job is cancelled
+  signal?: AbortSignal;
+};
+
+/**
+ * Writes a Summary Information Memorandum for a deal, renders it to PDF and
+ * DOCX in the storage backend and moves its SIM row from IN_PROGRESS to
+ * COMPLETED, or to FAILED with the error
+ * @param dealId - The deal to describe
+ * @param options - An existing SIM row to fill in and an abort signal
+ * @returns The SIM, or an error with the HTTP status to respond with
+ */
+export async function generateSim(
+  dealId: string,
+  options: GenerateSimOptions = {}
+) {
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: { id: true, title: true, dealCaption: true },
+  });
+  if (!deal) {
+    return {
+      success: false as const,
+      status: 404,
+      error: "Deal not found",
+    };
+  }
+
+  if (options.simId) {
+    const existing = await prismaDB.sIM.findFirst({
+      where: { id: options.simId, dealId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return {
+        success: false as const,
+        status: 404,
+        error: "SIM not found",
+      };
+    }
+  }
+
+  const inProgress = {
+    status: SIMStatus.IN_PROGRESS,
+    title: deal.title || deal.dealCaption,
+    caption: deal.dealCaption,
+    error: null,
+  };
+  const sim = options.simId
+    ? await prismaDB.sIM.update({
+        where: { id: options.simId },
+        data: inProgress,
+      })
+    : await prismaDB.sIM.create({
+        data: {
+          ...inProgress,
+          dealId,
+          fileName: "",
+          fileType: "",
+          fileUrl: "",
+        },
+      });
+
+  try {
+    const document = await buildSimDocument(dealId, options.signal);
+    if (!document) throw new Error("Deal not found");
+
+    const [pdf, docx] = await Promise.all([
+      renderSimPdf(document),
+      renderSimDocx(document),
+    ]);
+
+    const storage = getStorageBackend();
+    const fileName = `sim-${sim.id}`;
+    const [fileUrl, docxFileUrl] = await Promise.all([
+      storage.put(`sims/${dealId}/${fileName}.pdf`, pdf, PDF_MIME_TYPE),
+      storage.put(`sims/${dealId}/${fileName}.docx`, docx, DOCX_MIME_TYPE),
+    ]);
+
+    const completed = await prismaDB.sIM.update({
+      where: { id: sim.id },
+      data: {
+        status: SIMStatus.COMPLETED,
+        title: document.title,
+        caption: document.caption,
+        fileName: `${fileName}.pdf`,
+        fileType: PDF_MIME_TYPE,
+        fileUrl,
+        docxFileUrl,
+      },
+    });
+
+    logger.info(`Generated SIM ${sim.id} for deal ${dealId}`, {
+      storage: storage.name,
+    });
+    return { success: true as const, sim: completed };
+  } catch (error) {
+    const message = options.signal?.aborted
+      ? "Cancelled"
+      : error instanceof Error
+        ? error.message
+        : "Unknown error";
+    logger.error(`Error generating SIM ${sim.id} for deal ${dealId}`, {
+      error,
+    });
+
+    await prismaDB.sIM.update({
+      where: { id: sim.id },
+      data: { status: SIMStatus.FAILED, error: message },
+    });
+    return {
+      success: false as const,
+      status: 500,
+      error: message,
+      simId: sim.id,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import type { DealDocumentCategory } from "@prisma/client";
+import prismaDB from "../prisma";
+import { logger } from "../observability/logger";
+import { indexDealDocument } from "../retrieval/retrieval-index";
+import { extractDocumentText } from "../documents/extract-text";
+
+type IngestDealDocumentInput = {
+  dealId: string;
+  category: DealDocumentCategory;
+  title?: string;
+  description?: string;
+  documentUrl?: string;
+  file: {
+    buffer: Buffer;
+    mimeType: string;
+    fileName: string;
+    size: number;
+  };
+};
+
+/**
+ * Extracts the text of an uploaded deal document and stores it as a DealDocument
+ * @param input - The deal, category and uploaded file
+ * @returns The saved document, or an error with the HTTP status to respond with
+ */
+export async function ingestDealDocument(input: IngestDealDocumentInput) {
+  const { dealId, category, file } = input;
+
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: { id: true },
+  });
+
+  if (!deal) {
+    return {
+      success: false as const,
+      status: 404,
+      error: "Deal not found",
+    };
+  }
+
+  const extraction = await extractDocumentText(
+    file.buffer,
+    file.mimeType,
+    file.fileName
+  );
+
+  if (!extraction.success) {
+    return {
+      success: false as const,
+      status: extraction.reason === "unsupported" ? 415 : 422,
+      error: extraction.message,
+    };
+  }
+
+  const document = await prismaDB.dealDocument.create({
+    data: {
+      dealId,
+      category,
+      title: input.title || file.fileName,
+      description: input.description,
+      // Files are stored by the main app; fall back to the file name when no URL is given
+      documentUrl: input.documentUrl || file.fileName,
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      fileSize: file.size,
+      extractedText: extraction.text,
+    },
+  });
+
+  logger.info(
+    `Ingested ${extraction.format} document ${document.id} for deal ${dealId} (${extraction.text.length} characters)`
+  );
+
+  await indexDealDocument(document);
+
+  return {
+    success: true as const,
+    document,
+  };
+}
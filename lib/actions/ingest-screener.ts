@@ -0,0 +1,144 @@
+import prismaDB from "../prisma";
+import { indexScreener } from "../retrieval/retrieval-index";
+import { extractDocumentText } from "../documents/extract-text";
+import { normalizeDocumentText } from "../utils";
+import type { screenerUploadType } from "../schemas/screener-upload-schema";
+import {
+  createScreenerVersion,
+  getCurrentScreenerVersion,
+  hashScreenerContent,
+} from "../screening/screener-versions";
+import { enqueueScreenerRescreening } from "../queue/deal-listings-queue";
+import { logger } from "../observability/logger";
+
+type IngestScreenerInput = screenerUploadType & {
+  file: {
+    buffer: Buffer;
+    mimeType: string;
+    fileName: string;
+  };
+};
+
+/**
+ * Picks the next free "<name> (vN)" for a screener name
+ */
+async function getNextVersionedName(name: string) {
+  const existing = await prismaDB.screener.findMany({
+    where: { name: { startsWith: name } },
+    select: { name: true },
+  });
+
+  const versionPattern = new RegExp(
+    `^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")} \\(v(\\d+)\\)$`
+  );
+  const latestVersion = existing.reduce((latest, screener) => {
+    const match = screener.name.match(versionPattern);
+    const version = match?.[1] ? Number(match[1]) : 1;
+    return Math.max(latest, version);
+  }, 1);
+
+  return `${name} (v${latestVersion + 1})`;
+}
+
+/**
+ * Builds a screener from an investment-criteria document. Every content
+ * change is stored as a new immutable screener version.
+ * @param input - The screener name, conflict policy and uploaded file
+ * @returns The created or replaced screener, or an error with the HTTP status to respond with
+ */
+export async function ingestScreener(input: IngestScreenerInput) {
+  const { name, onConflict, rescreen, file } = input;
+
+  const extraction = await extractDocumentText(
+    file.buffer,
+    file.mimeType,
+    file.fileName
+  );
+
+  if (!extraction.success) {
+    return {
+      success: false as const,
+      status: extraction.reason === "unsupported" ? 415 : 422,
+      error: extraction.message,
+    };
+  }
+
+  if (extraction.format === "xlsx") {
+    return {
+      success: false as const,
+      status: 415,
+      error: "Screeners must be PDF, DOCX, Markdown or TXT documents",
+    };
+  }
+
+  const content = normalizeDocumentText(extraction.text);
+  const fileUrl = input.fileUrl || file.fileName;
+
+  const existing = await prismaDB.screener.findFirst({
+    where: { name },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (existing && onConflict === "reject") {
+    return {
+      success: false as const,
+      status: 409,
+      error: `A screener named "${name}" already exists, pass onConflict=replace or onConflict=version`,
+    };
+  }
+
+  if (existing && onConflict === "replace") {
+    const currentVersion = await getCurrentScreenerVersion(existing.id);
+    if (currentVersion?.contentHash === hashScreenerContent(content)) {
+      logger.info(`Screener ${existing.id} (${name}) is unchanged`);
+      return {
+        success: true as const,
+        action: "unchanged" as const,
+        screener: existing,
+        version: currentVersion.version,
+        rescreenQueued: 0,
+      };
+    }
+
+    const { screener, version } = await prismaDB.$transaction(async (tx) => {
+      const screener = await tx.screener.update({
+        where: { id: existing.id },
+        data: { content, fileUrl },
+      });
+      return { screener, version: await createScreenerVersion(screener, tx) };
+    });
+    logger.info(
+      `Replaced content of screener ${screener.id} (${name}), now version ${version.version}`
+    );
+
+    await indexScreener(screener);
+    const rescreenQueued = rescreen
+      ? await enqueueScreenerRescreening(screener.id)
+      : 0;
+    return {
+      success: true as const,
+      action: "replaced" as const,
+      screener,
+      version: version.version,
+      rescreenQueued,
+    };
+  }
+
+  const screenerName = existing ? await getNextVersionedName(name) : name;
+  const { screener, version } = await prismaDB.$transaction(async (tx) => {
+    const screener = await tx.screener.create({
+      data: { name: screenerName, content, fileUrl },
+    });
+    return { screener, version: await createScreenerVersion(screener, tx) };
+  });
+  logger.info(`Created screener ${screener.id} (${screenerName})`);
+  await indexScreener(screener);
+
+  return {
+    success: true as const,
+    action: existing ? ("versioned" as const) : ("created" as const),
+    screener,
+    version: version.version,
+    rescreenQueued: 0,
+  };
+}
@@ -0,0 +1,48 @@
+import prismaDB from "../prisma";
+import { doAIDealScreening } from "../ai/tools/ai-screening";
+
+/**
+ * Screens a stored deal in the retrieval (RAG) mode: the model sees the
+ * indexed criteria, documents and past screenings closest to the deal
+ * @param dealId - The deal to screen
+ * @param screenerId - Optionally restrict criteria to one screener
+ */
+export async function ragScreenDeal(dealId: string, screenerId?: string) {
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: {
+      title: true,
+      dealCaption: true,
+      dealTeaser: true,
+      dealType: true,
+      industry: true,
+      companyLocation: true,
+      revenue: true,
+      ebitda: true,
+      ebitdaMargin: true,
+      grossRevenue: true,
+      askingPrice: true,
+      tags: true,
+    },
+  });
+
+  if (!deal) {
+    return { success: false as const, status: 404, error: "Deal not found" };
+  }
+
+  const screening = await doAIDealScreening(JSON.stringify(deal), {
+    dealId,
+    screenerId,
+    industry: deal.industry,
+  });
+
+  if (!screening.success) {
+    return { success: false as const, status: 502, error: screening.message };
+  }
+
+  return {
+    success: true as const,
+    result: screening.result,
+    sources: screening.sources,
+  };
+}
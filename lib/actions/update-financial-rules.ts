@@ -0,0 +1,40 @@
+import prismaDB from "../prisma";
+import type { financialRulesType } from "../schemas/financial-rules-schema";
+import { createScreenerVersion } from "../screening/screener-versions";
+import { logger } from "../observability/logger";
+
+/**
+ * Replaces a screener's financial rules and records them as a new screener
+ * version. New screenings check deals against them before any model call;
+ * screenings pinned to an earlier version use that version's rules.
+ * @returns The saved rules, or an error with the HTTP status to respond with
+ */
+export async function updateFinancialRules(
+  screenerId: string,
+  rules: financialRulesType
+) {
+  const screener = await prismaDB.screener.findFirst({
+    where: { id: screenerId },
+    select: { id: true },
+  });
+  if (!screener) {
+    return {
+      success: false as const,
+      status: 404,
+      error: "Screener not found",
+    };
+  }
+
+  const version = await prismaDB.$transaction(async (tx) => {
+    const screener = await tx.screener.update({
+      where: { id: screenerId },
+      data: { financialRules: rules },
+    });
+    return createScreenerVersion(screener, tx);
+  });
+
+  logger.info(
+    `Updated financial rules of screener ${screenerId}, now version ${version.version}`
+  );
+  return { success: true as const, screenerId, rules };
+}
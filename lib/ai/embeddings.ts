@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import { embedMany } from "ai";
+import { getEmbeddingConfig, getEmbeddingModel } from "./model-registry";
+import type { ModelConfig } from "./model-registry";
+import { recordModelUsage } from "./usage";
+
+export type EmbeddingBackend = {
+  // Stored with each vector; vectors of different backends are never compared
+  id: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+function normalizeVector(vector: number[]) {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * A deterministic bag-of-words embedding that needs no model: words and word
+ * pairs are hashed into a fixed number of buckets. Good enough for keyword
+ * overlap, meant for tests and the offline provider.
+ */
+export function createLocalEmbeddingBackend(
+  dimensions = LOCAL_EMBEDDING_DIMENSIONS
+): EmbeddingBackend {
+  const bucket = (feature: string) =>
+    createHash("md5").update(feature).digest().readUInt32LE(0) % dimensions;
+
+  return {
+    id: `local-hash-${dimensions}`,
+    embed: async (texts) =>
+      texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[a-z0-9$%.]+/g) ?? [];
+        words.forEach((word, i) => {
+          vector[bucket(word)]! += 1;
+          if (i > 0) vector[bucket(`${words[i - 1]} ${word}`)]! += 0.5;
+        });
+        return normalizeVector(vector);
+      }),
+  };
+}
+
+/**
+ * Embeds through an OpenAI or OpenAI-compatible embedding model
+ */
+export function createProviderEmbeddingBackend(
+  config: ModelConfig
+): EmbeddingBackend {
+  const model = getEmbeddingModel(config);
+
+  return {
+    id: `${config.provider}:${config.modelId}`,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+      const startedAt = performance.now();
+      const { embeddings, usage } = await embedMany({ model, values: texts });
+      await recordModelUsage({
+        task: "embedding",
+        config,
+        inputTokens: usage.tokens,
+        outputTokens: 0,
+        latencyMs: performance.now() - startedAt,
+      });
+      return embeddings;
+    },
+  };
+}
+
+let embeddingBackend: EmbeddingBackend | null = null;
+
+/**
+ * Returns the configured embedding backend: the local one for the offline
+ * provider, the provider's embedding model otherwise
+ */
+export function getEmbeddingBackend(): EmbeddingBackend {
+  if (!embeddingBackend) {
+    const config = getEmbeddingConfig();
+    embeddingBackend =
+      config.provider === "offline"
+        ? createLocalEmbeddingBackend()
+        : createProviderEmbeddingBackend(config);
+  }
+  return embeddingBackend;
+}
+
+/**
+ * Replaces the embedding backend, e.g. with a local stand-in in tests
+ */
+export function setEmbeddingBackend(backend: EmbeddingBackend | null) {
+  embeddingBackend = backend;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,264 @@
+import { APICallError, RetryError } from "ai";
+import { countTokens } from "./tokens";
+import { getModelConfig } from "./model-registry";
+import type { ModelTask } from "./model-registry";
+import { assertWithinBudget, recordModelUsage } from "./usage";
+import { logger } from "../observability/logger";
+import { modelCallDuration, modelCallErrors } from "../observability/metrics";
+
+const MAX_RETRIES = Number(process.env.AI_MAX_RETRIES) || 5;
+const RETRY_BASE_DELAY_MS = Number(process.env.AI_RETRY_BASE_DELAY_MS) || 1000;
+const RETRY_MAX_DELAY_MS = Number(process.env.AI_RETRY_MAX_DELAY_MS) || 60000;
+
+// Shared by every job in this process; 0 disables the limit
+const REQUESTS_PER_MINUTE = Number(process.env.AI_REQUESTS_PER_MINUTE) || 0;
+const TOKENS_PER_MINUTE = Number(process.env.AI_TOKENS_PER_MINUTE) || 0;
+// Completion tokens reserved per call until the real usage is known
+const OUTPUT_TOKEN_ALLOWANCE = 1000;
+
+export const CHUNK_CONCURRENCY = Number(process.env.AI_CHUNK_CONCURRENCY) || 4;
+
+// Share of a job's chunks that may fail before the whole job fails; anything
+// but a number from 0 to 1 falls back to the default
+export const MAX_CHUNK_FAILURE_RATIO = parseFailureRatio(
+  process.env.AI_MAX_CHUNK_FAILURE_RATIO
+);
+
+const WINDOW_MS = 60000;
+
+function parseFailureRatio(value: string | undefined) {
+  const ratio = Number(value);
+  if (!value || !(ratio >= 0 && ratio <= 1)) {
+    if (value) {
+      logger.warn(`Invalid AI_MAX_CHUNK_FAILURE_RATIO "${value}", using 0.25`);
+    }
+    return 0.25;
+  }
+  return ratio;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Sliding one-minute window of requests and tokens spent by model calls
+ */
+const budget = {
+  entries: [] as { at: number; tokens: number }[],
+
+  prune(now: number) {
+    while (this.entries.length > 0 && now - this.entries[0]!.at >= WINDOW_MS) {
+      this.entries.shift();
+    }
+  },
+
+  /**
+   * Waits until the call fits in the window, then reserves it
+   * @returns The reservation, whose tokens are corrected once usage is known
+   */
+  async acquire(tokens: number, signal?: AbortSignal) {
+    while (true) {
+      const now = Date.now();
+      this.prune(now);
+
+      const usedTokens = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+      const requestsOk =
+        !REQUESTS_PER_MINUTE || this.entries.length < REQUESTS_PER_MINUTE;
+      // A call larger than the whole budget still runs once the window is empty
+      const tokensOk =
+        !TOKENS_PER_MINUTE ||
+        usedTokens + tokens <= TOKENS_PER_MINUTE ||
+        this.entries.length === 0;
+
+      if (requestsOk && tokensOk) {
+        const entry = { at: now, tokens };
+        this.entries.push(entry);
+        return entry;
+      }
+
+      const oldest = this.entries[0]!;
+      await sleep(Math.max(WINDOW_MS - (now - oldest.at), 50), signal);
+    }
+  },
+};
+
+function parseRetryAfter(headers?: Record<string, string>): number | null {
+  if (!headers) return null;
+  const retryAfterMs = headers["retry-after-ms"];
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) return Number(retryAfterMs);
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return null;
+  if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function unwrapError(error: unknown) {
+  return RetryError.isInstance(error) ? error.lastError : error;
+}
+
+/**
+ * Buckets a failed model call for the error metric
+ */
+function getErrorReason(error: unknown) {
+  const cause = unwrapError(error);
+  if (APICallError.isInstance(cause)) {
+    if (cause.statusCode === 429) return "rate_limited";
+    if (cause.statusCode !== undefined && cause.statusCode >= 500) {
+      return "server_error";
+    }
+    return "client_error";
+  }
+  if (cause instanceof Error && cause.name === "AbortError") return "aborted";
+  if (cause instanceof TypeError) return "network";
+  return "other";
+}
+
+function isRetryable(error: unknown) {
+  const cause = unwrapError(error);
+  if (APICallError.isInstance(cause)) {
+    return (
+      cause.isRetryable ||
+      cause.statusCode === 429 ||
+      (cause.statusCode !== undefined && cause.statusCode >= 500)
+    );
+  }
+  // Network failures surface as plain TypeErrors from fetch
+  return cause instanceof TypeError;
+}
+
+function getRetryDelay(error: unknown, attempt: number) {
+  const cause = unwrapError(error);
+  const retryAfter = APICallError.isInstance(cause)
+    ? parseRetryAfter(cause.responseHeaders)
+    : null;
+  if (retryAfter !== null) return Math.min(retryAfter, RETRY_MAX_DELAY_MS);
+
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS);
+}
+
+type ModelCallResult = {
+  usage?: {
+    inputTokens?: number | undefined;
+    outputTokens?: number | undefined;
+    totalTokens?: number | undefined;
+  };
+};
+
+/**
+ * Runs a model call within the shared per-minute budget, retrying rate-limit
+ * and transient errors with exponential backoff that honours retry-after.
+ * The token usage of the successful attempt is recorded for cost accounting,
+ * and the call is refused once the job's user is over their monthly budget.
+ * Pass `maxRetries: 0` to the AI SDK call so retries aren't stacked.
+ * @param options - The task the call belongs to and its prompt (for the token estimate)
+ * @param call - The generateText/generateObject call
+ */
+export async function runModelCall<T extends ModelCallResult>(
+  options: { task: ModelTask; prompt: string; signal?: AbortSignal },
+  call: () => Promise<T>
+): Promise<T> {
+  const config = getModelConfig(options.task);
+  const promptTokens = countTokens(options.prompt, config.modelId);
+  const estimatedTokens = promptTokens + OUTPUT_TOKEN_ALLOWANCE;
+
+  const labels = { task: options.task, model: config.modelId };
+  await assertWithinBudget();
+
+  for (let attempt = 0; ; attempt++) {
+    const reservation = await budget.acquire(estimatedTokens, options.signal);
+    const startedAt = performance.now();
+    try {
+      const result = await call();
+      const latencyMs = performance.now() - startedAt;
+      modelCallDuration.observe(
+        { ...labels, outcome: "success" },
+        latencyMs / 1000
+      );
+      reservation.tokens = result.usage?.totalTokens ?? estimatedTokens;
+
+      await recordModelUsage({
+        task: options.task,
+        config,
+        inputTokens: result.usage?.inputTokens ?? promptTokens,
+        outputTokens: result.usage?.outputTokens ?? 0,
+        latencyMs,
+      });
+      return result;
+    } catch (error) {
+      modelCallDuration.observe(
+        { ...labels, outcome: "error" },
+        (performance.now() - startedAt) / 1000
+      );
+      modelCallErrors.inc({ ...labels, reason: getErrorReason(error) });
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) throw error;
+
+      const delay = getRetryDelay(error, attempt);
+      logger.warn(
+        `Model call failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}), retrying in ${Math.round(delay)}ms`,
+        { task: options.task, error }
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Runs `fn` over the items with at most `limit` calls in flight, returning
+ * the settled results in the original order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await fn(items[index]!, index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Applies the chunk failure policy: a job fails when more than
+ * MAX_CHUNK_FAILURE_RATIO of its chunks failed, or when all of them did
+ * @returns An error message when the job should fail, otherwise null
+ */
+export function checkChunkFailures(failed: number, total: number) {
+  if (failed === 0) return null;
+  if (failed === total || failed / total > MAX_CHUNK_FAILURE_RATIO) {
+    return `${failed} of ${total} chunks failed, exceeding the tolerated ratio of ${MAX_CHUNK_FAILURE_RATIO}`;
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { generateObject, generateText } from "ai";
+import { z } from "zod";
+import { getModel, getModelConfig } from "./model-registry";
+
+const AI_SETTINGS = [
+  "AI_PROVIDER",
+  "AI_MODEL",
+  "AI_CHUNK_EVALUATION_PROVIDER",
+  "AI_CHUNK_EVALUATION_MODEL",
+];
+
+afterEach(() => {
+  for (const name of AI_SETTINGS) delete process.env[name];
+});
+
+describe("getModelConfig", () => {
+  test("falls back to the built-in model of the task", () => {
+    expect(getModelConfig("dealScreening")).toEqual({
+      provider: "openai",
+      modelId: "gpt-4o",
+    });
+  });
+
+  test("lets per-task settings override the global ones", () => {
+    process.env.AI_PROVIDER = "openai-compatible";
+    process.env.AI_MODEL = "llama3.1";
+    process.env.AI_CHUNK_EVALUATION_PROVIDER = "offline";
+    process.env.AI_CHUNK_EVALUATION_MODEL = "offline-small";
+
+    expect(getModelConfig("chunkEvaluation")).toEqual({
+      provider: "offline",
+      modelId: "offline-small",
+    });
+    expect(getModelConfig("finalSummary")).toEqual({
+      provider: "openai-compatible",
+      modelId: "llama3.1",
+    });
+  });
+
+  test("rejects unknown providers", () => {
+    process.env.AI_PROVIDER = "carrier-pigeon";
+    expect(() => getModelConfig("extraction")).toThrow(
+      'Unknown AI provider "carrier-pigeon"'
+    );
+  });
+});
+
+describe("offline provider", () => {
+  const schema = z.object({
+    score: z.number().min(1).max(10),
+    sentiment: z.enum(["POSITIVE", "NEUTRAL", "NEGATIVE"]),
+    title: z.string(),
+  });
+
+  test("returns objects that match the requested schema", async () => {
+    process.env.AI_PROVIDER = "offline";
+    const { object } = await generateObject({
+      model: getModel("dealScreening"),
+      prompt: "Evaluate the deal",
+      schema,
+    });
+
+    expect(schema.safeParse(object).success).toBe(true);
+  });
+
+  test("answers the same prompt the same way", async () => {
+    process.env.AI_PROVIDER = "offline";
+    const generate = (prompt: string) =>
+      generateText({ model: getModel("finalSummary"), prompt }).then(
+        (result) => result.text
+      );
+
+    expect(await generate("Summarize deal A")).toBe(
+      await generate("Summarize deal A")
+    );
+    expect(await generate("Summarize deal A")).not.toBe(
+      await generate("Summarize deal B")
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import "dotenv/config";
+import { wrapLanguageModel } from "ai";
+import type { EmbeddingModel, LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOfflineModel, createRecordingMiddleware } from "./offline-model";
+
+export type ModelTask =
+  | "chunkEvaluation"
+  | "finalSummary"
+  | "extraction"
+  | "dealScreening"
+  | "simGeneration";
+
+export type ProviderName = "openai" | "openai-compatible" | "offline";
+
+const providerNames: ProviderName[] = ["openai", "openai-compatible", "offline"];
+
+const DEFAULT_MODELS: Record<ModelTask, string> = {
+  chunkEvaluation: "gpt-4o-mini",
+  finalSummary: "gpt-4o-mini",
+  extraction: "gpt-4o-mini",
+  dealScreening: "gpt-4o",
+  simGeneration: "gpt-4o",
+};
+
+export const modelTasks = Object.keys(DEFAULT_MODELS) as ModelTask[];
+
+// chunkEvaluation -> CHUNK_EVALUATION
+const toEnvSegment = (task: ModelTask) =>
+  task.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase();
+
+export type ModelConfig = {
+  provider: ProviderName;
+  modelId: string;
+};
+
+/**
+ * Resolves the provider and model for a task. Per-task settings
+ * (AI_<TASK>_PROVIDER, AI_<TASK>_MODEL) override the global AI_PROVIDER and
+ * AI_MODEL, which override the built-in defaults.
+ */
+export function getModelConfig(task: ModelTask): ModelConfig {
+  const segment = toEnvSegment(task);
+  const provider = (process.env[`AI_${segment}_PROVIDER`] ||
+    process.env.AI_PROVIDER ||
+    "openai") as ProviderName;
+
+  if (!providerNames.includes(provider)) {
+    throw new Error(
+      `Unknown AI provider "${provider}", expected one of ${providerNames.join(", ")}`
+    );
+  }
+
+  const modelId =
+    process.env[`AI_${segment}_MODEL`] ||
+    process.env.AI_MODEL ||
+    DEFAULT_MODELS[task];
+
+  return { provider, modelId };
+}
+
+const openaiProvider = createOpenAI({
+  apiKey: process.env.AI_API_KEY,
+});
+
+// Local servers (Ollama, vLLM, LM Studio...) speak the chat completions API
+const openaiCompatibleProvider = createOpenAI({
+  name: "openai-compatible",
+  baseURL: process.env.AI_BASE_URL,
+  apiKey: process.env.AI_BASE_URL_API_KEY || process.env.AI_API_KEY || "local",
+});
+
+function createModel({ provider, modelId }: ModelConfig): LanguageModel {
+  const recordingsPath = process.env.AI_RECORDINGS_PATH;
+
+  if (provider === "offline") {
+    return createOfflineModel(modelId, { recordingsPath });
+  }
+
+  const model =
+    provider === "openai-compatible"
+      ? openaiCompatibleProvider.chat(modelId)
+      : openaiProvider(modelId);
+
+  if (recordingsPath && process.env.AI_RECORD_RESPONSES === "true") {
+    return wrapLanguageModel({
+      model,
+      middleware: createRecordingMiddleware(recordingsPath),
+    });
+  }
+
+  return model;
+}
+
+/**
+ * Returns the language model configured for a task
+ * @param task - What the model is used for
+ */
+export function getModel(task: ModelTask): LanguageModel {
+  return createModel(getModelConfig(task));
+}
+
+/**
+ * Resolves the models of several tasks, e.g. to record what produced a result
+ */
+export function getModelConfigs<T extends ModelTask>(
+  tasks: T[]
+): Record<T, ModelConfig> {
+  return Object.fromEntries(
+    tasks.map((task) => [task, getModelConfig(task)])
+  ) as Record<T, ModelConfig>;
+}
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * Resolves the embedding provider and model from AI_EMBEDDING_PROVIDER and
+ * AI_EMBEDDING_MODEL. The provider falls back to AI_PROVIDER; AI_MODEL is
+ * ignored since chat models can't embed.
+ */
+export function getEmbeddingConfig(): ModelConfig {
+  const provider = (process.env.AI_EMBEDDING_PROVIDER ||
+    process.env.AI_PROVIDER ||
+    "openai") as ProviderName;
+
+  if (!providerNames.includes(provider)) {
+    throw new Error(
+      `Unknown AI provider "${provider}", expected one of ${providerNames.join(", ")}`
+    );
+  }
+
+  return {
+    provider,
+    modelId: process.env.AI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+  };
+}
+
+/**
+ * Returns the embedding model of an OpenAI or OpenAI-compatible provider
+ */
+export function getEmbeddingModel({
+  provider,
+  modelId,
+}: ModelConfig): EmbeddingModel<string> {
+  if (provider === "offline") {
+    throw new Error("The offline provider has no embedding models");
+  }
+
+  return provider === "openai-compatible"
+    ? openaiCompatibleProvider.textEmbeddingModel(modelId)
+    : openaiProvider.textEmbeddingModel(modelId);
+}
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Returns the HTTP endpoint and credentials of a provider, e.g. to probe its
+ * reachability. The offline provider has none.
+ */
+export function getProviderEndpoint(
+  provider: ProviderName
+): { baseUrl: string; apiKey?: string } | null {
+  if (provider === "offline") return null;
+
+  if (provider === "openai-compatible") {
+    if (!process.env.AI_BASE_URL) {
+      throw new Error("AI_BASE_URL is required by the openai-compatible provider");
+    }
+    return {
+      baseUrl: process.env.AI_BASE_URL,
+      apiKey: process.env.AI_BASE_URL_API_KEY || process.env.AI_API_KEY,
+    };
+  }
+
+  return { baseUrl: OPENAI_BASE_URL, apiKey: process.env.AI_API_KEY };
+}
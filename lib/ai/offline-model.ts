@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Middleware,
+  LanguageModelV2Prompt,
+} from "@ai-sdk/provider";
+
+type Recordings = Record<string, string>;
+
+const recordingsCache = new Map<string, Recordings>();
+
+function loadRecordings(recordingsPath: string): Recordings {
+  const cached = recordingsCache.get(recordingsPath);
+  if (cached) return cached;
+
+  const recordings: Recordings = existsSync(recordingsPath)
+    ? JSON.parse(readFileSync(recordingsPath, "utf-8"))
+    : {};
+  recordingsCache.set(recordingsPath, recordings);
+  return recordings;
+}
+
+function promptToText(prompt: LanguageModelV2Prompt): string {
+  return prompt
+    .map((message) => {
+      const content =
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .join("");
+      return `${message.role}: ${content}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Hashes everything that determines a response, so recordings can be looked
+ * up independently of the provider that produced them
+ */
+export function getRecordingKey(options: LanguageModelV2CallOptions): string {
+  const format = options.responseFormat ?? { type: "text" };
+  return createHash("sha256")
+    .update(JSON.stringify({ prompt: promptToText(options.prompt), format }))
+    .digest("hex");
+}
+
+function resolveSchema(
+  definition: JSONSchema7Definition | undefined
+): JSONSchema7 {
+  return typeof definition === "object" ? definition : {};
+}
+
+/**
+ * Produces a value that satisfies the JSON schema, picking enum members and
+ * numbers from the seed so different prompts give different but stable output
+ */
+function sampleFromSchema(
+  schema: JSONSchema7,
+  seed: number,
+  name = "value"
+): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[seed % schema.enum.length];
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants && variants.length > 0) {
+    return sampleFromSchema(resolveSchema(variants[0]), seed, name);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property], i) => [
+          key,
+          sampleFromSchema(resolveSchema(property), seed + i, key),
+        ])
+      );
+    case "array": {
+      const itemCount = Math.max(schema.minItems ?? 1, 1);
+      const items = resolveSchema(
+        Array.isArray(schema.items) ? schema.items[0] : schema.items
+      );
+      return Array.from({ length: itemCount }, (_, i) =>
+        sampleFromSchema(items, seed + i, name)
+      );
+    }
+    case "number":
+    case "integer": {
+      const minimum = schema.minimum ?? 0;
+      const maximum = schema.maximum ?? minimum + 10;
+      const value = minimum + (seed % (maximum - minimum + 1));
+      return Math.min(value, maximum);
+    }
+    case "boolean":
+      return seed % 2 === 0;
+    case "null":
+      return null;
+    case "string":
+    default:
+      return `Offline ${name} ${seed.toString(16)}`;
+  }
+}
+
+/**
+ * Creates a language model that never touches the network. Responses come from
+ * the recordings file when the prompt has been recorded, otherwise they are
+ * derived deterministically from the prompt (text) or the requested schema (objects).
+ */
+export function createOfflineModel(
+  modelId: string,
+  options: { recordingsPath?: string } = {}
+): LanguageModelV2 {
+  const generate = async (callOptions: LanguageModelV2CallOptions) => {
+    const key = getRecordingKey(callOptions);
+    const recorded = options.recordingsPath
+      ? loadRecordings(options.recordingsPath)[key]
+      : undefined;
+
+    let text: string;
+    if (recorded !== undefined) {
+      text = recorded;
+    } else {
+      const seed = parseInt(key.slice(0, 8), 16);
+      text =
+        callOptions.responseFormat?.type === "json"
+          ? JSON.stringify(
+              sampleFromSchema(callOptions.responseFormat.schema ?? {}, seed)
+            )
+          : `[offline ${modelId}] Deterministic evaluation ${key.slice(0, 12)}`;
+    }
+
+    const inputTokens = Math.ceil(promptToText(callOptions.prompt).length / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "offline",
+    modelId,
+    supportedUrls: {},
+    async doGenerate(callOptions) {
+      const { text, usage } = await generate(callOptions);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream(callOptions) {
+      const { text, usage } = await generate(callOptions);
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "0" });
+          controller.enqueue({ type: "text-delta", id: "0", delta: text });
+          controller.enqueue({ type: "text-end", id: "0" });
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      });
+      return { stream };
+    },
+  };
+}
+
+/**
+ * Middleware that writes every generated text response to the recordings
+ * file, so a real provider run can later be replayed by the offline provider
+ */
+export function createRecordingMiddleware(
+  recordingsPath: string
+): LanguageModelV2Middleware {
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      const text = result.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("");
+
+      const recordings = loadRecordings(recordingsPath);
+      recordings[getRecordingKey(params)] = text;
+      writeFileSync(recordingsPath, JSON.stringify(recordings, null, 2));
+
+      return result;
+    },
+  };
+}
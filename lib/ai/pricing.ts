@@ -0,0 +1,78 @@
+import { logger } from "../observability/logger";
+
+export type ModelPrice = {
+  // USD per million tokens
+  input: number;
+  output: number;
+};
+
+// Prices by model id prefix; the longest matching prefix wins, so smaller
+// variants need their own entry or they are priced as the base model
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  o1: { input: 15, output: 60 },
+  "o1-mini": { input: 1.1, output: 4.4 },
+  "o1-pro": { input: 150, output: 600 },
+  o3: { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o3-pro": { input: 20, output: 80 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+/**
+ * The built-in prices merged with AI_MODEL_PRICES, a JSON object such as
+ * {"llama3.1": {"input": 0, "output": 0}}
+ */
+function getPriceTable() {
+  if (priceTable) return priceTable;
+
+  priceTable = DEFAULT_PRICES;
+  const override = process.env.AI_MODEL_PRICES;
+  if (override) {
+    try {
+      priceTable = { ...DEFAULT_PRICES, ...JSON.parse(override) };
+    } catch (error) {
+      logger.error("Invalid AI_MODEL_PRICES, using defaults", { error });
+    }
+  }
+  return priceTable!;
+}
+
+/**
+ * Returns the price of a model, or null when it isn't in the price table
+ */
+export function getModelPrice(modelId: string): ModelPrice | null {
+  const table = getPriceTable();
+  const prefix = Object.keys(table)
+    .filter((candidate) => modelId.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix]! : null;
+}
+
+/**
+ * Estimates the cost of a model call in USD. Unknown models cost 0.
+ */
+export function estimateCost(
+  modelId: string,
+  inputTokens: number,
+  outputTokens: number
+) {
+  const price = getModelPrice(modelId);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
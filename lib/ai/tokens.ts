@@ -0,0 +1,77 @@
+import { getEncoding } from "js-tiktoken";
+import type { Tiktoken, TiktokenEncoding } from "js-tiktoken";
+
+// Context window in tokens by model id prefix; the longest matching prefix wins
+const CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4.1": 1047576,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  "gpt-5": 400000,
+  o1: 200000,
+  o3: 200000,
+  "o4-mini": 200000,
+};
+
+// Conservative default for models we don't know, e.g. local ones
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncodingName(modelId: string): TiktokenEncoding {
+  if (/^(gpt-4(?!o|\.1)|gpt-3\.5)/.test(modelId)) return "cl100k_base";
+  // o200k_base is the encoding of current OpenAI models and a fair
+  // approximation for other providers
+  return "o200k_base";
+}
+
+function getModelEncoding(modelId: string): Tiktoken {
+  const name = getEncodingName(modelId);
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
+
+/**
+ * Counts the tokens of a text for the given model
+ */
+export function countTokens(text: string, modelId: string): number {
+  if (!text) return 0;
+  return getModelEncoding(modelId).encode(text).length;
+}
+
+/**
+ * Splits a text into pieces of at most `maxTokens` tokens each
+ */
+export function splitByTokens(
+  text: string,
+  maxTokens: number,
+  modelId: string
+): string[] {
+  const encoding = getModelEncoding(modelId);
+  const tokens = encoding.encode(text);
+  const pieces: string[] = [];
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    pieces.push(encoding.decode(tokens.slice(i, i + maxTokens)));
+  }
+  return pieces;
+}
+
+/**
+ * Returns the context window of a model in tokens. AI_CONTEXT_WINDOW_TOKENS
+ * overrides the lookup, e.g. for local models.
+ */
+export function getContextWindow(modelId: string): number {
+  const override = Number(process.env.AI_CONTEXT_WINDOW_TOKENS);
+  if (override > 0) return override;
+
+  const prefix = Object.keys(CONTEXT_WINDOWS)
+    .filter((candidate) => modelId.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? CONTEXT_WINDOWS[prefix]! : DEFAULT_CONTEXT_WINDOW;
+}
@@ -1,12 +1,19 @@
-import { openaiClient } from "../available-models";
+import { generateObject } from "ai";
+import { RetrievalSourceType } from "@prisma/client";
+import { getModel } from "../model-registry";
+import { runModelCall } from "../model-calls";
+import { searchIndex } from "../../retrieval/retrieval-index";
+import type { RetrievedPassage } from "../../retrieval/retrieval-index";
 import z from "zod";
-import { zodTextFormat } from "openai/helpers/zod";
 import { promises as fs } from "fs";
 import path from "path";
+import { logger } from "../../observability/logger";
 
 const DealScreeningResult = z.object({
   score: z
     .number()
+    .min(1)
+    .max(10)
     .describe("Numerical score from 1-10, where 10 is excellent"),
   title: z.string().describe("Brief, descriptive title summarizing the deal"),
 
@@ -24,42 +31,95 @@ const DealScreeningResult = z.object({
     .optional(),
 });
 
+export type DealScreeningResultType = z.infer<typeof DealScreeningResult>;
+
+type DealScreeningOptions = {
+  // Restrict criteria to one screener
+  screenerId?: string;
+  // Include this deal's documents; its own past screenings are left out
+  dealId?: string;
+  // Only learn from past screenings of deals in this industry
+  industry?: string;
+  // Passages retrieved per source type
+  limit?: number;
+};
+
+const formatPassages = (heading: string, passages: RetrievedPassage[]) =>
+  passages.length > 0
+    ? `# ${heading}\n\n${passages
+        .map((passage, i) => `[${i + 1}] ${passage.text}`)
+        .join("\n\n")}`
+    : `# ${heading}\n\nNone found.`;
+
 /**
  *
- * performs ai screening by taking the deal information and passing it through a model that compares it to its vector store
+ * performs ai screening by retrieving the screening criteria, deal documents and past screenings closest to the deal from the local retrieval index
  *
- * @param dealInfo
- * @returns
+ * @param dealInfo - The deal description to screen
+ * @param options - Optional screener and deal to retrieve for
+ * @returns The validated screening result and the passages it was based on
  */
-export async function doAIDealScreening(dealInfo: string) {
+export async function doAIDealScreening(
+  dealInfo: string,
+  options: DealScreeningOptions = {}
+) {
   const promptPath = path.join(__dirname, "prompt.txt");
-  const instructions = await fs.readFile(promptPath, "utf-8");
+  const limit = options.limit ?? 8;
 
   try {
-    const response = await openaiClient.responses.create({
-      model: "gpt-4o",
-      instructions,
-      input: `Can you please evaluate deal ${dealInfo}`,
-      tools: [
-        {
-          type: "file_search",
-          vector_store_ids: ["vs_J6ChDdA5z2j0fJKtmoOQnohz"],
-          max_num_results: 20,
-        },
-      ],
-      include: ["file_search_call.results"],
-    });
+    const instructions = await fs.readFile(promptPath, "utf-8");
+    const [criteria, documents, pastScreenings] = await Promise.all([
+      searchIndex(dealInfo, {
+        sourceTypes: [RetrievalSourceType.SCREENER],
+        screenerId: options.screenerId,
+        limit,
+      }),
+      options.dealId
+        ? searchIndex(dealInfo, {
+            sourceTypes: [RetrievalSourceType.DEAL_DOCUMENT],
+            dealId: options.dealId,
+            limit,
+          })
+        : Promise.resolve([]),
+      searchIndex(dealInfo, {
+        sourceTypes: [RetrievalSourceType.SCREENING],
+        excludeDealId: options.dealId,
+        industry: options.industry,
+        limit: Math.ceil(limit / 2),
+      }),
+    ]);
+
+    const prompt = [
+      `Can you please evaluate deal ${dealInfo}`,
+      formatPassages("Screening criteria", criteria),
+      formatPassages("Deal documents", documents),
+      formatPassages("Screenings of similar deals", pastScreenings),
+    ].join("\n\n");
+
+    const { object } = await runModelCall(
+      { task: "dealScreening", prompt },
+      () =>
+        generateObject({
+          model: getModel("dealScreening"),
+          system: instructions,
+          prompt,
+          schema: DealScreeningResult,
+          maxRetries: 0,
+        })
+    );
 
-    console.log(response.output_text);
     return {
-      success: true,
+      success: true as const,
       message: "successfully screened deal",
-      result: response.output_text,
+      result: object,
+      sources: [...criteria, ...documents, ...pastScreenings].map(
+        ({ text: _text, ...source }) => source
+      ),
     };
   } catch (error) {
-    console.error("Error in doAIDealScreening", error);
+    logger.error("Error in doAIDealScreening", { error });
     return {
-      success: false,
+      success: false as const,
       message: "Error screening deal",
     };
   }
@@ -0,0 +1,170 @@
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { estimateCost } from "./pricing";
+import type { ModelConfig, ModelTask } from "./model-registry";
+import { getJobContext } from "../observability/context";
+import { logger } from "../observability/logger";
+
+export type UsageContext = {
+  jobId?: string;
+  userId?: string;
+  dealId?: string;
+  screenerId?: string;
+};
+
+export const usageGroupings = [
+  "userId",
+  "screenerId",
+  "dealId",
+  "jobId",
+  "modelId",
+  "task",
+] as const;
+export type UsageGrouping = (typeof usageGroupings)[number];
+
+// Applies to users without their own monthlyBudgetUsd; 0 means no limit
+const DEFAULT_MONTHLY_BUDGET_USD =
+  Number(process.env.AI_DEFAULT_MONTHLY_BUDGET_USD) || 0;
+
+/**
+ * Stores the usage of a model call, attributed to the job, user, deal and
+ * screener of the current job context. Never throws, so accounting can't fail
+ * a screening.
+ */
+export async function recordModelUsage(usage: {
+  task: ModelTask | "embedding";
+  config: ModelConfig;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}) {
+  const { jobId, userId, dealId, screenerId } = getJobContext();
+
+  try {
+    await prismaDB.modelUsage.create({
+      data: {
+        task: usage.task,
+        provider: usage.config.provider,
+        modelId: usage.config.modelId,
+        promptTokens: usage.inputTokens,
+        completionTokens: usage.outputTokens,
+        totalTokens: usage.inputTokens + usage.outputTokens,
+        latencyMs: Math.round(usage.latencyMs),
+        costUsd:
+          usage.config.provider === "offline"
+            ? 0
+            : estimateCost(
+                usage.config.modelId,
+                usage.inputTokens,
+                usage.outputTokens
+              ),
+        jobId,
+        userId,
+        dealId,
+        screenerId,
+      },
+    });
+  } catch (error) {
+    logger.error("Error recording model usage", { error });
+  }
+}
+
+/**
+ * Throws once the user of the current job context has used up their monthly
+ * budget, so a running job stops before its next model call
+ */
+export async function assertWithinBudget() {
+  const { userId } = getJobContext();
+  if (!userId) return;
+
+  const budget = await getUserBudgetStatus(userId);
+  if (budget.exceeded) {
+    throw new Error(`Monthly AI budget of $${budget.budgetUsd} used up`);
+  }
+}
+
+const startOfMonth = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Sums model usage, optionally grouped by user, screener, deal, job, model or
+ * task, most expensive first
+ */
+export async function getUsageSummary(options: {
+  from?: Date;
+  to?: Date;
+  groupBy?: UsageGrouping;
+  filters?: UsageContext;
+}) {
+  const where: Prisma.ModelUsageWhereInput = {
+    ...options.filters,
+    createdAt: { gte: options.from ?? startOfMonth(), lt: options.to },
+  };
+  const sums = {
+    promptTokens: true,
+    completionTokens: true,
+    totalTokens: true,
+    costUsd: true,
+  } as const;
+
+  if (!options.groupBy) {
+    const totals = await prismaDB.modelUsage.aggregate({
+      where,
+      _sum: sums,
+      _count: { _all: true },
+      _avg: { latencyMs: true },
+    });
+    return [
+      {
+        ...totals._sum,
+        calls: totals._count._all,
+        avgLatencyMs: totals._avg.latencyMs,
+      },
+    ];
+  }
+
+  const groups = await prismaDB.modelUsage.groupBy({
+    by: [options.groupBy],
+    where,
+    _sum: sums,
+    _count: { _all: true },
+    _avg: { latencyMs: true },
+    orderBy: { _sum: { costUsd: "desc" } },
+  });
+
+  return groups.map((group) => ({
+    [options.groupBy!]: group[options.groupBy!],
+    ...group._sum,
+    calls: group._count._all,
+    avgLatencyMs: group._avg.latencyMs,
+  }));
+}
+
+/**
+ * Returns a user's model spend this calendar month (UTC) against their budget
+ * @returns The budget is null when the user has no limit
+ */
+export async function getUserBudgetStatus(userId: string) {
+  const [user, spend] = await Promise.all([
+    prismaDB.user.findFirst({
+      where: { id: userId },
+      select: { monthlyBudgetUsd: true },
+    }),
+    prismaDB.modelUsage.aggregate({
+      where: { userId, createdAt: { gte: startOfMonth() } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+
+  const budgetUsd =
+    user?.monthlyBudgetUsd ?? (DEFAULT_MONTHLY_BUDGET_USD || null);
+  const spentUsd = spend._sum.costUsd ?? 0;
+
+  return {
+    userId,
+    budgetUsd,
+    spentUsd,
+    remainingUsd: budgetUsd === null ? null : Math.max(budgetUsd - spentUsd, 0),
+    exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+  };
+}
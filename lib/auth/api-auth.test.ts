@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "./api-auth";
+
+const SECRET = "test-secret";
+
+const fakeRequest = (headers: Record<string, string>, body = "{}") =>
+  ({
+    method: "POST",
+    path: "/screeners",
+    originalUrl: "/screeners",
+    rawBody: Buffer.from(body),
+    get: (name: string) => headers[name.toLowerCase()],
+    is: (type: string) =>
+      headers["content-type"]?.startsWith(type) ? type : false,
+  }) as unknown as Request;
+
+const signedHeaders = (body: string, contentType = "application/json") => {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac("sha256", SECRET)
+    .update(`${timestamp}.POST./screeners.${body}`)
+    .digest("hex");
+  return {
+    "content-type": contentType,
+    "x-timestamp": timestamp,
+    "x-signature": `sha256=${signature}`,
+  };
+};
+
+/**
+ * Runs the middleware
+ * @returns The status it responded with, or "next" when it let the request through
+ */
+async function authenticate(req: Request): Promise<number | "next"> {
+  let status: number | "next" = "next";
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+  await requireApiAuth(req, res, () => {});
+  return status;
+}
+
+beforeAll(() => {
+  process.env.API_KEYS = "key-one, key-two";
+  process.env.API_HMAC_SECRET = SECRET;
+});
+
+afterAll(() => {
+  delete process.env.API_KEYS;
+  delete process.env.API_HMAC_SECRET;
+});
+
+describe("requireApiAuth", () => {
+  test("accepts a configured API key", async () => {
+    expect(await authenticate(fakeRequest({ "x-api-key": "key-two" }))).toBe(
+      "next"
+    );
+    expect(
+      await authenticate(fakeRequest({ authorization: "Bearer key-one" }))
+    ).toBe("next");
+    expect(await authenticate(fakeRequest({ "x-api-key": "nope" }))).toBe(401);
+    expect(await authenticate(fakeRequest({}))).toBe(401);
+  });
+
+  test("accepts a signature once", async () => {
+    const body = '{"dealId":"deal-1"}';
+    const headers = signedHeaders(body);
+    expect(await authenticate(fakeRequest(headers, body))).toBe("next");
+    expect(await authenticate(fakeRequest(headers, body))).toBe(401);
+  });
+
+  test("rejects a signature over another body", async () => {
+    const headers = signedHeaders('{"dealId":"deal-1"}');
+    expect(await authenticate(fakeRequest(headers, '{"dealId":"deal-2"}'))).toBe(
+      401
+    );
+  });
+
+  test("rejects signed multipart requests", async () => {
+    const headers = signedHeaders("", "multipart/form-data; boundary=x");
+    expect(await authenticate(fakeRequest(headers, ""))).toBe(401);
+  });
+});
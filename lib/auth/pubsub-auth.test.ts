@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { exportJWK, generateKeyPair, SignJWT } from "jose";
+import type { CryptoKey, JWTPayload } from "jose";
+import { setPubSubKeySet, verifyPubSubToken } from "./pubsub-auth";
+
+const AUDIENCE = "https://worker.example.com/pubsub/jobs";
+const SERVICE_ACCOUNT = "pubsub-push@example.iam.gserviceaccount.com";
+
+let privateKey: CryptoKey;
+
+const signToken = (claims: JWTPayload, key = privateKey) =>
+  new SignJWT({
+    iss: "https://accounts.google.com",
+    aud: AUDIENCE,
+    email: SERVICE_ACCOUNT,
+    email_verified: true,
+    ...claims,
+  })
+    .setProtectedHeader({ alg: "RS256", kid: "test" })
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(key);
+
+beforeAll(async () => {
+  const keys = await generateKeyPair("RS256");
+  privateKey = keys.privateKey;
+  const jwk = await exportJWK(keys.publicKey);
+  setPubSubKeySet({ keys: [{ ...jwk, kid: "test", alg: "RS256" }] });
+
+  process.env.PUBSUB_AUDIENCE = AUDIENCE;
+  process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL = SERVICE_ACCOUNT;
+});
+
+afterAll(() => {
+  setPubSubKeySet(null);
+  delete process.env.PUBSUB_AUDIENCE;
+  delete process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL;
+});
+
+describe("verifyPubSubToken", () => {
+  test("accepts a token of the push service account", async () => {
+    const result = await verifyPubSubToken(await signToken({}));
+    expect(result).toEqual({ success: true, email: SERVICE_ACCOUNT });
+  });
+
+  test("rejects a token for another audience", async () => {
+    const token = await signToken({ aud: "https://elsewhere.example.com" });
+    expect((await verifyPubSubToken(token)).success).toBe(false);
+  });
+
+  test("rejects a token of another or unverified account", async () => {
+    const otherAccount = await signToken({ email: "intruder@example.com" });
+    const unverified = await signToken({ email_verified: false });
+    expect((await verifyPubSubToken(otherAccount)).success).toBe(false);
+    expect((await verifyPubSubToken(unverified)).success).toBe(false);
+  });
+
+  test("rejects a token signed with another key", async () => {
+    const { privateKey: otherKey } = await generateKeyPair("RS256");
+    const token = await signToken({}, otherKey);
+    expect((await verifyPubSubToken(token)).success).toBe(false);
+  });
+
+  test("rejects every token while unconfigured", async () => {
+    const token = await signToken({});
+    delete process.env.PUBSUB_AUDIENCE;
+    const result = await verifyPubSubToken(token);
+    process.env.PUBSUB_AUDIENCE = AUDIENCE;
+
+    expect(result).toEqual({
+      success: false,
+      error: "Pub/Sub authentication is not configured",
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import type { NextFunction, Request, Response } from "express";
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify } from "jose";
+import type { JSONWebKeySet, JWTVerifyGetKey } from "jose";
+import { logger } from "../observability/logger";
+
+const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+
+let keySet: JWTVerifyGetKey | null = null;
+
+/**
+ * Returns the keys Pub/Sub tokens are verified against: `PUBSUB_JWKS` (an
+ * inline key set, e.g. in tests), `PUBSUB_JWKS_URL`, or Google's certificates
+ */
+function getKeySet(): JWTVerifyGetKey {
+  if (!keySet) {
+    keySet = process.env.PUBSUB_JWKS
+      ? createLocalJWKSet(JSON.parse(process.env.PUBSUB_JWKS) as JSONWebKeySet)
+      : createRemoteJWKSet(
+          new URL(process.env.PUBSUB_JWKS_URL || GOOGLE_JWKS_URL)
+        );
+  }
+  return keySet;
+}
+
+/**
+ * Replaces the key set, e.g. with a local one in tests
+ */
+export function setPubSubKeySet(jwks: JSONWebKeySet | null) {
+  keySet = jwks ? createLocalJWKSet(jwks) : null;
+}
+
+/**
+ * Verifies the OIDC token Pub/Sub attaches to push requests: signature,
+ * issuer, audience and the push subscription's service account
+ * @returns The token's email claim, or an error message
+ */
+export async function verifyPubSubToken(token: string) {
+  const audience = process.env.PUBSUB_AUDIENCE;
+  const serviceAccount = process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL;
+  if (!audience || !serviceAccount) {
+    return {
+      success: false as const,
+      error: "Pub/Sub authentication is not configured",
+    };
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, getKeySet(), {
+      issuer: process.env.PUBSUB_TOKEN_ISSUER || GOOGLE_ISSUERS,
+      audience,
+    });
+
+    if (payload.email !== serviceAccount || payload.email_verified !== true) {
+      return {
+        success: false as const,
+        error: `Unexpected token email ${payload.email}`,
+      };
+    }
+    return { success: true as const, email: serviceAccount };
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Invalid token",
+    };
+  }
+}
+
+/**
+ * Rejects requests without a valid Pub/Sub push token. `AUTH_DISABLED=true`
+ * turns the check off for local development.
+ */
+export async function requirePubSubAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (process.env.AUTH_DISABLED === "true") return next();
+
+  const [scheme, token] = (req.get("authorization") ?? "").split(" ");
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({ error: "Missing bearer token" });
+  }
+
+  const result = await verifyPubSubToken(token);
+  if (!result.success) {
+    logger.warn(`Rejected Pub/Sub push to ${req.path}: ${result.error}`);
+    return res.status(401).json({ error: "Invalid bearer token" });
+  }
+  next();
+}
@@ -0,0 +1,12 @@
+import prismaDB from "../prisma";
+
+/**
+ * Whether jobs for the user must be rejected. Unknown users aren't blocked.
+ */
+export async function isUserBlocked(userId: string) {
+  const user = await prismaDB.user.findFirst({
+    where: { id: userId },
+    select: { isBlocked: true },
+  });
+  return user?.isBlocked ?? false;
+}
@@ -0,0 +1,57 @@
+import "dotenv/config";
+
+export type BitrixResponse<T> = {
+  result?: T;
+  error?: string;
+  error_description?: string;
+};
+
+const BITRIX_TIMEOUT_MS = Number(process.env.BITRIX_TIMEOUT_MS) || 15000;
+
+/**
+ * Whether an incoming-webhook URL has been configured
+ */
+export function isBitrixConfigured() {
+  return Boolean(process.env.BITRIX_WEBHOOK_URL);
+}
+
+/**
+ * Calls a Bitrix24 REST method through the incoming webhook
+ * (BITRIX_WEBHOOK_URL, e.g. https://example.bitrix24.com/rest/1/<token>/).
+ * Point the URL at a local mock server to test without a real portal.
+ * @param method - The REST method, e.g. crm.deal.update
+ * @param params - The method parameters
+ * @returns The method result
+ */
+export async function callBitrix<T = unknown>(
+  method: string,
+  params: Record<string, unknown>
+): Promise<T> {
+  const webhookUrl = process.env.BITRIX_WEBHOOK_URL;
+  if (!webhookUrl) throw new Error("BITRIX_WEBHOOK_URL is not configured");
+
+  const url = `${webhookUrl.replace(/\/+$/, "")}/${method}.json`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+    signal: AbortSignal.timeout(BITRIX_TIMEOUT_MS),
+  });
+
+  let body: BitrixResponse<T>;
+  try {
+    body = (await response.json()) as BitrixResponse<T>;
+  } catch {
+    throw new Error(`Bitrix ${method} returned ${response.status}`);
+  }
+
+  if (!response.ok || body.error) {
+    throw new Error(
+      `Bitrix ${method} failed (${response.status}): ${
+        body.error_description || body.error || "Unknown error"
+      }`
+    );
+  }
+
+  return body.result as T;
+}
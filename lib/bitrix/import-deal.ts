@@ -0,0 +1,236 @@
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { callBitrix } from "./client";
+import { logger } from "../observability/logger";
+
+type BitrixRecord = Record<string, unknown>;
+
+type BitrixMultiField = { VALUE?: string; VALUE_TYPE?: string }[];
+
+type BitrixContact = {
+  ID: string;
+  NAME?: string;
+  LAST_NAME?: string;
+  EMAIL?: BitrixMultiField;
+  PHONE?: BitrixMultiField;
+};
+
+const stringColumns = [
+  "title",
+  "dealCaption",
+  "dealTeaser",
+  "brokerage",
+  "industry",
+  "companyLocation",
+  "sourceWebsite",
+] as const;
+
+const numberColumns = [
+  "revenue",
+  "ebitda",
+  "ebitdaMargin",
+  "askingPrice",
+  "grossRevenue",
+] as const;
+
+type MappableColumn =
+  | (typeof stringColumns)[number]
+  | (typeof numberColumns)[number]
+  | "tags";
+
+// Deal column -> Bitrix deal field code. Override with BITRIX_DEAL_FIELD_MAP,
+// a JSON object such as {"revenue": "UF_CRM_1700000000"}
+const DEFAULT_FIELD_MAP: Partial<Record<MappableColumn, string>> = {
+  title: "TITLE",
+  dealCaption: "COMMENTS",
+  askingPrice: "OPPORTUNITY",
+  sourceWebsite: "SOURCE_DESCRIPTION",
+};
+
+function getFieldMap(): Partial<Record<MappableColumn, string>> {
+  const override = process.env.BITRIX_DEAL_FIELD_MAP;
+  if (!override) return DEFAULT_FIELD_MAP;
+
+  try {
+    return { ...DEFAULT_FIELD_MAP, ...JSON.parse(override) };
+  } catch (error) {
+    logger.error("Invalid BITRIX_DEAL_FIELD_MAP, using defaults", { error });
+    return DEFAULT_FIELD_MAP;
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const number = Number(String(value).replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  // Bitrix comments are HTML
+  const text = String(value)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Maps a Bitrix deal onto Deal columns using the configured field map. Only
+ * fields present on the Bitrix deal are returned.
+ */
+export function mapBitrixDealFields(bitrixDeal: BitrixRecord) {
+  const fieldMap = getFieldMap();
+  const mapped: Partial<Record<MappableColumn, string | number | string[]>> =
+    {};
+
+  for (const column of stringColumns) {
+    const code = fieldMap[column];
+    const value = code ? toText(bitrixDeal[code]) : undefined;
+    if (value !== undefined) mapped[column] = value;
+  }
+
+  for (const column of numberColumns) {
+    const code = fieldMap[column];
+    const value = code ? toNumber(bitrixDeal[code]) : undefined;
+    if (value !== undefined) mapped[column] = value;
+  }
+
+  const tagsCode = fieldMap.tags;
+  const tags = tagsCode ? bitrixDeal[tagsCode] : undefined;
+  if (Array.isArray(tags)) mapped.tags = tags.map(String);
+  else if (typeof tags === "string" && tags) {
+    mapped.tags = tags.split(",").map((tag) => tag.trim());
+  }
+
+  return mapped as {
+    [K in (typeof stringColumns)[number]]?: string;
+  } & {
+    [K in (typeof numberColumns)[number]]?: number;
+  } & { tags?: string[] };
+}
+
+function getPortalUrl() {
+  const webhookUrl = process.env.BITRIX_WEBHOOK_URL;
+  return (
+    process.env.BITRIX_PORTAL_URL || (webhookUrl && new URL(webhookUrl).origin)
+  );
+}
+
+async function fetchDealContacts(bitrixDealId: string) {
+  const items = await callBitrix<{ CONTACT_ID: string; IS_PRIMARY: string }[]>(
+    "crm.deal.contact.items.get",
+    { id: bitrixDealId }
+  );
+
+  const contacts = await Promise.all(
+    (items ?? []).map(async (item) => ({
+      isPrimary: item.IS_PRIMARY === "Y",
+      contact: await callBitrix<BitrixContact>("crm.contact.get", {
+        id: item.CONTACT_ID,
+      }),
+    }))
+  );
+
+  return contacts;
+}
+
+const firstValue = (field?: BitrixMultiField) =>
+  field?.find((entry) => entry.VALUE)?.VALUE;
+
+/**
+ * Fetches a deal from Bitrix24 and upserts it into Deal keyed by bitrixId,
+ * replacing its POC rows with the deal's Bitrix contacts
+ * @param bitrixDealId - The Bitrix deal ID
+ * @returns The local deal id and whether it was created
+ */
+export async function importBitrixDeal(bitrixDealId: string) {
+  const bitrixDeal = await callBitrix<BitrixRecord>("crm.deal.get", {
+    id: bitrixDealId,
+  });
+  const mapped = mapBitrixDealFields(bitrixDeal);
+  const contacts = await fetchDealContacts(bitrixDealId);
+  const primary =
+    contacts.find((entry) => entry.isPrimary)?.contact ?? contacts[0]?.contact;
+
+  const portalUrl = getPortalUrl();
+  const bitrixLink = portalUrl
+    ? `${portalUrl}/crm/deal/details/${bitrixDealId}/`
+    : null;
+  const createdAt = bitrixDeal.DATE_CREATE
+    ? new Date(String(bitrixDeal.DATE_CREATE))
+    : null;
+
+  const pocs = contacts
+    .map(({ contact }) => ({
+      name: [contact.NAME, contact.LAST_NAME].filter(Boolean).join(" "),
+      email: firstValue(contact.EMAIL),
+      workPhone: firstValue(contact.PHONE) ?? null,
+    }))
+    .filter(
+      (poc): poc is { name: string; email: string; workPhone: string | null } =>
+        Boolean(poc.email)
+    );
+
+  const sharedData = {
+    ...mapped,
+    bitrixLink,
+    bitrixCreatedAt:
+      createdAt && !isNaN(createdAt.getTime()) ? createdAt : null,
+    ...(primary
+      ? {
+          firstName: primary.NAME ?? null,
+          lastName: primary.LAST_NAME ?? null,
+          email: firstValue(primary.EMAIL) ?? null,
+          workPhone: firstValue(primary.PHONE) ?? null,
+        }
+      : {}),
+  };
+
+  // Deal columns that are required locally but may not be mapped from Bitrix
+  const ebitdaMargin =
+    mapped.ebitdaMargin ??
+    (mapped.revenue && mapped.ebitda
+      ? (mapped.ebitda / mapped.revenue) * 100
+      : 0);
+  const createData: Prisma.DealCreateInput = {
+    ...sharedData,
+    bitrixId: bitrixDealId,
+    brokerage: mapped.brokerage ?? "Bitrix24",
+    dealCaption: mapped.dealCaption ?? mapped.title ?? "",
+    industry: mapped.industry ?? "Unknown",
+    sourceWebsite: mapped.sourceWebsite ?? bitrixLink ?? "bitrix24",
+    revenue: mapped.revenue ?? 0,
+    ebitda: mapped.ebitda ?? 0,
+    ebitdaMargin,
+  };
+
+  // Only tells the caller what happened; the upsert keeps concurrent imports
+  // of the same Bitrix deal from creating two deals
+  const existing = await prismaDB.deal.findFirst({
+    where: { bitrixId: bitrixDealId },
+    select: { id: true },
+  });
+
+  const deal = await prismaDB.$transaction(async (tx) => {
+    const deal = await tx.deal.upsert({
+      where: { bitrixId: bitrixDealId },
+      create: createData,
+      update: sharedData,
+      select: { id: true },
+    });
+    await tx.pOC.deleteMany({ where: { dealId: deal.id } });
+    await tx.pOC.createMany({
+      data: pocs.map((poc) => ({ ...poc, dealId: deal.id })),
+    });
+    return deal;
+  });
+
+  if (existing) {
+    logger.info(`Updated deal ${deal.id} from Bitrix deal ${bitrixDealId}`);
+    return { dealId: deal.id, created: false };
+  }
+
+  logger.info(`Imported Bitrix deal ${bitrixDealId} as deal ${deal.id}`);
+  return { dealId: deal.id, created: true };
+}
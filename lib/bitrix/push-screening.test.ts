@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test";
+import type { Subprocess } from "bun";
+
+// Pushes go to scripts/mock-bitrix-server.ts, started on its own port
+const PORT = 18090;
+const FAILING_PORT = 18091;
+
+process.env.BITRIX_FIELD_SCORE = "UF_CRM_SCORE";
+process.env.BITRIX_FIELD_SENTIMENT = "UF_CRM_SENTIMENT";
+
+const screening = {
+  id: "screening-1",
+  dealId: "deal-1",
+  title: "Profitable HVAC services business",
+  explanation: "Meets the EBITDA and location criteria.",
+  score: 8,
+  sentiment: "POSITIVE",
+  deal: { bitrixId: "42" },
+  screener: { name: "Home services" },
+};
+
+mock.module("../prisma", () => ({
+  default: { aiScreening: { findFirst: async () => screening } },
+}));
+
+const { pushScreeningToBitrix } = await import("./push-screening");
+
+const servers: Subprocess[] = [];
+
+async function startMockBitrix(port: number, fail = false) {
+  const server = Bun.spawn(["bun", "scripts/mock-bitrix-server.ts"], {
+    env: {
+      ...process.env,
+      MOCK_BITRIX_PORT: String(port),
+      MOCK_BITRIX_FAIL: String(fail),
+    },
+    stdout: "ignore",
+  });
+  servers.push(server);
+
+  for (let i = 0; i < 50; i++) {
+    try {
+      await fetch(`http://localhost:${port}/_mock/state`);
+      return;
+    } catch {
+      await Bun.sleep(100);
+    }
+  }
+  throw new Error(`Mock Bitrix server on port ${port} did not start`);
+}
+
+const useMockBitrix = (port: number) => {
+  process.env.BITRIX_WEBHOOK_URL = `http://localhost:${port}/rest/1/mock-token`;
+};
+
+beforeAll(async () => {
+  await startMockBitrix(PORT);
+  await startMockBitrix(FAILING_PORT, true);
+});
+
+afterAll(async () => {
+  for (const server of servers) {
+    server.kill();
+    await server.exited;
+  }
+  delete process.env.BITRIX_WEBHOOK_URL;
+});
+
+describe("pushScreeningToBitrix", () => {
+  test("writes the result to the deal and its timeline", async () => {
+    useMockBitrix(PORT);
+    expect(await pushScreeningToBitrix(screening.id)).toBe(true);
+
+    const response = await fetch(`http://localhost:${PORT}/_mock/state`);
+    const state = (await response.json()) as {
+      deals: Record<string, Record<string, unknown>>;
+      timeline: Record<string, string>[];
+    };
+    expect(state.deals["42"]).toMatchObject({
+      UF_CRM_SCORE: 8,
+      UF_CRM_SENTIMENT: "POSITIVE",
+    });
+    expect(state.timeline[0]).toMatchObject({
+      ENTITY_ID: "42",
+      ENTITY_TYPE: "deal",
+    });
+    expect(state.timeline[0]?.COMMENT).toStartWith(
+      "AI screening (Home services): Profitable HVAC services business"
+    );
+  });
+
+  test("fails when Bitrix rejects the call", async () => {
+    useMockBitrix(FAILING_PORT);
+    await expect(pushScreeningToBitrix(screening.id)).rejects.toThrow(
+      "Bitrix crm.deal.update failed (503): Mock failure"
+    );
+  });
+});
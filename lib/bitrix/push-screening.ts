@@ -0,0 +1,180 @@
+import prismaDB from "../prisma";
+import redis from "../redis";
+import { callBitrix, isBitrixConfigured } from "./client";
+import { logger } from "../observability/logger";
+
+const PENDING_KEY = "bitrix:sync:pending";
+const ATTEMPTS_KEY = "bitrix:sync:attempts";
+export const BITRIX_SYNC_FAILED_KEY = "bitrix:sync:failed";
+
+const MAX_ATTEMPTS = Number(process.env.BITRIX_SYNC_MAX_ATTEMPTS) || 8;
+const BACKOFF_BASE_MS =
+  Number(process.env.BITRIX_SYNC_BACKOFF_BASE_MS) || 60000;
+const RETRY_INTERVAL_MS = 30000;
+
+// Custom deal fields (UF_CRM_...) the screening result is written to
+const FIELD_CODES = {
+  score: process.env.BITRIX_FIELD_SCORE,
+  sentiment: process.env.BITRIX_FIELD_SENTIMENT,
+  title: process.env.BITRIX_FIELD_TITLE,
+  explanation: process.env.BITRIX_FIELD_EXPLANATION,
+};
+
+/**
+ * Writes a screening result onto its Bitrix deal's custom fields and adds a
+ * timeline comment
+ * @param aiScreeningId - The screening to push
+ * @returns Whether anything was pushed; deals without a bitrixId are skipped
+ */
+export async function pushScreeningToBitrix(aiScreeningId: string) {
+  const screening = await prismaDB.aiScreening.findFirst({
+    where: { id: aiScreeningId },
+    include: {
+      deal: { select: { bitrixId: true } },
+      screener: { select: { name: true } },
+    },
+  });
+
+  if (!screening) throw new Error(`Screening ${aiScreeningId} not found`);
+
+  const bitrixId = screening.deal.bitrixId;
+  if (!bitrixId) {
+    logger.info(`Deal ${screening.dealId} has no bitrixId, skipping sync`);
+    return false;
+  }
+
+  const fields: Record<string, unknown> = {};
+  if (FIELD_CODES.score) fields[FIELD_CODES.score] = screening.score;
+  if (FIELD_CODES.sentiment) {
+    fields[FIELD_CODES.sentiment] = screening.sentiment;
+  }
+  if (FIELD_CODES.title) fields[FIELD_CODES.title] = screening.title;
+  if (FIELD_CODES.explanation) {
+    fields[FIELD_CODES.explanation] = screening.explanation;
+  }
+
+  if (Object.keys(fields).length > 0) {
+    await callBitrix("crm.deal.update", { id: bitrixId, fields });
+  }
+
+  const screenerName = screening.screener
+    ? ` (${screening.screener.name})`
+    : "";
+  const comment = [
+    `AI screening${screenerName}: ${screening.title}`,
+    `Score: ${screening.score ?? "n/a"}/10, sentiment: ${screening.sentiment}`,
+    "",
+    screening.explanation,
+  ].join("\n");
+
+  await callBitrix("crm.timeline.comment.add", {
+    fields: {
+      ENTITY_ID: bitrixId,
+      ENTITY_TYPE: "deal",
+      COMMENT: comment,
+    },
+  });
+
+  logger.info(`Pushed screening ${aiScreeningId} to Bitrix deal ${bitrixId}`);
+  return true;
+}
+
+async function scheduleRetry(aiScreeningId: string, error: unknown) {
+  if (!redis) {
+    logger.error(
+      `Redis not configured, dropping Bitrix sync of ${aiScreeningId}`
+    );
+    return;
+  }
+
+  const attempts = await redis.hincrby(ATTEMPTS_KEY, aiScreeningId, 1);
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (attempts >= MAX_ATTEMPTS) {
+    await redis
+      .multi()
+      .lpush(
+        BITRIX_SYNC_FAILED_KEY,
+        JSON.stringify({
+          aiScreeningId,
+          error: message,
+          attempts,
+          failedAt: new Date().toISOString(),
+        })
+      )
+      .hdel(ATTEMPTS_KEY, aiScreeningId)
+      .zrem(PENDING_KEY, aiScreeningId)
+      .exec();
+    logger.error(`Giving up Bitrix sync of ${aiScreeningId}: ${message}`);
+    return;
+  }
+
+  const delay = BACKOFF_BASE_MS * 2 ** (attempts - 1);
+  await redis.zadd(PENDING_KEY, Date.now() + delay, aiScreeningId);
+  logger.warn(
+    `Bitrix sync of ${aiScreeningId} failed (attempt ${attempts}/${MAX_ATTEMPTS}), retrying in ${delay}ms: ${message}`
+  );
+}
+
+/**
+ * Schedules a screening to be pushed to Bitrix by the background sync loop,
+ * so a slow or failing Bitrix can't hold up the screening job. Never throws.
+ */
+export async function scheduleBitrixSync(aiScreeningId: string) {
+  if (!isBitrixConfigured()) return;
+
+  if (!redis) {
+    pushScreeningToBitrix(aiScreeningId).catch((error) => {
+      logger.error(`Bitrix sync of ${aiScreeningId} failed`, { error });
+    });
+    return;
+  }
+
+  try {
+    // Due now; the loop pushes it on its next run, with the usual retries
+    await redis.zadd(PENDING_KEY, Date.now(), aiScreeningId);
+  } catch (error) {
+    logger.error("Failed to schedule Bitrix sync", { error });
+  }
+}
+
+/**
+ * Pushes the scheduled Bitrix syncs that are due, including retries whose
+ * backoff has elapsed
+ */
+export async function processBitrixSyncRetries() {
+  if (!redis || !isBitrixConfigured()) return;
+
+  const due = await redis.zrangebyscore(PENDING_KEY, "-inf", Date.now());
+  for (const aiScreeningId of due) {
+    // Only the instance that wins the ZREM pushes the sync
+    if ((await redis.zrem(PENDING_KEY, aiScreeningId)) !== 1) continue;
+
+    try {
+      await pushScreeningToBitrix(aiScreeningId);
+      await redis.hdel(ATTEMPTS_KEY, aiScreeningId);
+    } catch (error) {
+      await scheduleRetry(aiScreeningId, error);
+    }
+  }
+}
+
+let retryTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Periodically pushes scheduled and failed Bitrix syncs in the background
+ */
+export function startBitrixSyncRetries() {
+  if (retryTimer || !isBitrixConfigured()) return;
+
+  retryTimer = setInterval(() => {
+    processBitrixSyncRetries().catch((error) => {
+      logger.error("Bitrix sync retry error", { error });
+    });
+  }, RETRY_INTERVAL_MS);
+}
+
+export function stopBitrixSyncRetries() {
+  if (retryTimer) clearInterval(retryTimer);
+  retryTimer = null;
+}
@@ -0,0 +1,213 @@
+import { countTokens, getContextWindow, splitByTokens } from "./ai/tokens";
+
+export type Chunk = {
+  index: number;
+  text: string;
+  tokenCount: number;
+  // The heading of the section the chunk starts in, if any
+  heading: string | null;
+};
+
+type ChunkOptions = {
+  // The model the chunks will be sent to, used for token counting and limits
+  modelId: string;
+  // Tokens of the prompt that will surround each chunk
+  reservedTokens?: number;
+  // Explicit limits, otherwise derived from the model's context window
+  maxTokens?: number;
+  overlapTokens?: number;
+};
+
+type Unit = {
+  text: string;
+  tokens: number;
+  heading: string | null;
+  // Separator placed before this unit when it follows another one
+  separator: string;
+  startsSection: boolean;
+  isHeading: boolean;
+};
+
+// Chunks stay well below the context window so the model has room to reason
+const MAX_CHUNK_TOKENS = Number(process.env.CHUNK_MAX_TOKENS) || 2000;
+const CONTEXT_SHARE = 0.25;
+const OVERLAP_RATIO = 0.1;
+// Past this fill level a new section starts a new chunk instead of being split
+const SECTION_BREAK_FILL = 0.6;
+
+const HEADING_PATTERN =
+  /^(#{1,6}\s+.+|\d+(\.\d+)+\.?\s+[A-Z].{0,80}|[A-Z][A-Z0-9 &,/'()-]{3,80}:?)$/;
+
+const isHeading = (line: string) =>
+  HEADING_PATTERN.test(line.trim()) && !/[.!?]$/.test(line.trim());
+
+const isTableLine = (line: string) =>
+  /^\s*\|.*\|\s*$/.test(line) || line.split("\t").length > 2;
+
+/**
+ * Derives the chunk and overlap sizes for a model
+ */
+export function getChunkLimits(options: ChunkOptions) {
+  const available =
+    getContextWindow(options.modelId) - (options.reservedTokens ?? 0);
+  const maxTokens =
+    options.maxTokens ??
+    Math.max(
+      200,
+      Math.min(MAX_CHUNK_TOKENS, Math.floor(available * CONTEXT_SHARE))
+    );
+  const overlapTokens =
+    options.overlapTokens ?? Math.floor(maxTokens * OVERLAP_RATIO);
+
+  return { maxTokens, overlapTokens };
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [paragraph];
+}
+
+/**
+ * Breaks the text into units no larger than maxTokens: whole paragraphs and
+ * tables where possible, sentences otherwise, raw token windows as a last resort
+ */
+function toUnits(text: string, maxTokens: number, modelId: string): Unit[] {
+  const units: Unit[] = [];
+  let heading: string | null = null;
+  let startsSection = false;
+
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inTable = false;
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join("\n"));
+    current = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const tableLine = isTableLine(line);
+    if (!line.trim() || tableLine !== inTable || isHeading(line)) flush();
+    inTable = tableLine;
+    if (!line.trim()) continue;
+    current.push(line);
+    if (isHeading(line) && !tableLine) flush();
+  }
+  flush();
+
+  for (const block of blocks) {
+    if (isHeading(block)) {
+      heading = block.replace(/^#+\s*/, "").trim();
+      startsSection = true;
+    }
+
+    const push = (unitText: string, separator: string) => {
+      const trimmed = unitText.trim();
+      if (!trimmed) return;
+      units.push({
+        text: trimmed,
+        tokens: countTokens(trimmed, modelId),
+        heading,
+        separator,
+        startsSection,
+        isHeading: startsSection && isHeading(trimmed),
+      });
+      startsSection = false;
+    };
+
+    const tokens = countTokens(block, modelId);
+    if (tokens <= maxTokens) {
+      push(block, "\n\n");
+      continue;
+    }
+
+    // Oversized tables are split between rows so each row stays intact
+    const pieces = isTableLine(block.split("\n")[0] ?? "")
+      ? block.split("\n")
+      : splitSentences(block);
+    pieces.forEach((piece, i) => {
+      const separator = i === 0 ? "\n\n" : isTableLine(piece) ? "\n" : " ";
+      if (countTokens(piece, modelId) <= maxTokens) {
+        push(piece, separator);
+      } else {
+        splitByTokens(piece, maxTokens, modelId).forEach((window, j) =>
+          push(window, j === 0 ? separator : "")
+        );
+      }
+    });
+  }
+
+  return units;
+}
+
+/**
+ * Splits text into chunks that fit the target model, breaking at section,
+ * paragraph and sentence boundaries in that order of preference, and repeating
+ * the tail of each chunk at the start of the next for context
+ * @param text - The text to chunk
+ * @param options - The target model and optional explicit limits
+ */
+export function chunkText(text: string, options: ChunkOptions): Chunk[] {
+  const { maxTokens, overlapTokens } = getChunkLimits(options);
+  const units = toUnits(text, maxTokens, options.modelId);
+
+  const chunks: Chunk[] = [];
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const emit = (withOverlap: boolean) => {
+    if (current.length === 0) return;
+    const chunkText = current
+      .map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text))
+      .join("");
+    chunks.push({
+      index: chunks.length,
+      text: chunkText,
+      tokenCount: countTokens(chunkText, options.modelId),
+      heading: current[0]!.heading,
+    });
+
+    // Carry trailing units forward, but never the whole chunk
+    const overlap: Unit[] = [];
+    let overlapSize = 0;
+    if (withOverlap) {
+      for (let i = current.length - 1; i > 0; i--) {
+        const unit = current[i]!;
+        if (overlapSize + unit.tokens > overlapTokens) break;
+        overlap.unshift(unit);
+        overlapSize += unit.tokens;
+      }
+    }
+    current = overlap;
+    currentTokens = overlapSize;
+  };
+
+  for (const unit of units) {
+    const sectionBreak =
+      unit.startsSection && currentTokens >= maxTokens * SECTION_BREAK_FILL;
+    const overflow = currentTokens + unit.tokens > maxTokens;
+    // A lone heading stays with its first unit even if that overflows slightly
+    const onlyHeading = current.length === 1 && current[0]!.isHeading;
+
+    if ((sectionBreak || overflow) && !onlyHeading) {
+      // Keep a trailing heading together with the content that follows it
+      const last = current[current.length - 1];
+      const trailingHeading = last?.isHeading ? current.pop()! : null;
+      if (trailingHeading) currentTokens -= trailingHeading.tokens;
+
+      emit(!sectionBreak && !trailingHeading);
+
+      if (trailingHeading) {
+        current = [trailingHeading];
+        currentTokens = trailingHeading.tokens;
+      } else if (currentTokens + unit.tokens > maxTokens) {
+        // The overlap alone may leave no room for the unit
+        current = [];
+        currentTokens = 0;
+      }
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+  emit(false);
+
+  return chunks;
+}
@@ -0,0 +1,227 @@
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import {
+  cosineSimilarity,
+  createLocalEmbeddingBackend,
+} from "../ai/embeddings";
+
+// Deals loaded per lookup before ranking; prefiltered on industry and size
+const MAX_CANDIDATES = Number(process.env.COMPARABLES_MAX_CANDIDATES) || 500;
+
+// How much each signal contributes to the similarity
+const WEIGHTS = {
+  industry: 0.25,
+  revenue: 0.2,
+  ebitda: 0.15,
+  ebitdaMargin: 0.1,
+  location: 0.1,
+  tags: 0.1,
+  text: 0.1,
+};
+
+type ComparisonComponent = keyof typeof WEIGHTS;
+
+// Deals within this factor of each other's revenue/EBITDA are candidates
+const SIZE_BAND = 2;
+// Sizes this many times apart share nothing
+const SIZE_CUTOFF = 4;
+// EBITDA margins this many percentage points apart share nothing
+const MARGIN_CUTOFF = 20;
+
+const dealSelect = {
+  id: true,
+  title: true,
+  dealCaption: true,
+  dealTeaser: true,
+  industry: true,
+  revenue: true,
+  ebitda: true,
+  ebitdaMargin: true,
+  companyLocation: true,
+  tags: true,
+} satisfies Prisma.DealSelect;
+
+type ComparableDealFields = Prisma.DealGetPayload<{
+  select: typeof dealSelect;
+}>;
+
+type ComparablesOptions = {
+  limit?: number;
+  // Only use screenings made with this screener
+  screenerId?: string;
+  // Only return deals that have been screened
+  screenedOnly?: boolean;
+  // Compare dealCaption/dealTeaser text as well
+  includeText?: boolean;
+};
+
+const words = (text: string | null | undefined) =>
+  new Set(
+    (text ?? "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 1)
+  );
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return null;
+  const shared = [...a].filter((item) => b.has(item)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function sizeSimilarity(a: number, b: number) {
+  if (a <= 0 || b <= 0) return null;
+  return Math.max(0, 1 - Math.abs(Math.log(a / b)) / Math.log(SIZE_CUTOFF));
+}
+
+/**
+ * Scores how comparable two deals are, per signal and overall (0-1). Signals
+ * missing on either deal are left out of the weighting.
+ */
+function compareDeals(
+  target: ComparableDealFields,
+  candidate: ComparableDealFields,
+  embed?: (deal: ComparableDealFields) => number[]
+) {
+  const industry =
+    target.industry.trim().toLowerCase() ===
+    candidate.industry.trim().toLowerCase()
+      ? 1
+      : jaccard(words(target.industry), words(candidate.industry));
+
+  const components: Partial<Record<ComparisonComponent, number | null>> = {
+    industry,
+    revenue: sizeSimilarity(target.revenue, candidate.revenue),
+    ebitda: sizeSimilarity(target.ebitda, candidate.ebitda),
+    ebitdaMargin: Math.max(
+      0,
+      1 - Math.abs(target.ebitdaMargin - candidate.ebitdaMargin) / MARGIN_CUTOFF
+    ),
+    location: jaccard(
+      words(target.companyLocation),
+      words(candidate.companyLocation)
+    ),
+    tags: jaccard(
+      new Set(target.tags.map((tag) => tag.toLowerCase())),
+      new Set(candidate.tags.map((tag) => tag.toLowerCase()))
+    ),
+  };
+  if (embed) {
+    components.text = cosineSimilarity(embed(target), embed(candidate));
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [component, value] of Object.entries(components)) {
+    if (value === null || value === undefined) continue;
+    weighted += value * WEIGHTS[component as ComparisonComponent];
+    totalWeight += WEIGHTS[component as ComparisonComponent];
+  }
+
+  return {
+    similarity: totalWeight === 0 ? 0 : weighted / totalWeight,
+    components,
+  };
+}
+
+/**
+ * Finds the deals most comparable to a deal, with their latest screening
+ * @param dealId - The deal to find comparables for
+ * @param options - Result size and filters
+ * @returns The comparables, most similar first, or null when the deal doesn't exist
+ */
+export async function findComparableDeals(
+  dealId: string,
+  options: ComparablesOptions = {}
+) {
+  const target = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: dealSelect,
+  });
+  if (!target) return null;
+
+  const band = (value: number) =>
+    value > 0 ? { gte: value / SIZE_BAND, lte: value * SIZE_BAND } : undefined;
+  const screeningFilter = options.screenerId
+    ? { screenerId: options.screenerId }
+    : {};
+
+  // An empty filter would match every deal, so sizes without a band are left
+  // out rather than passed as undefined
+  const revenueBand = band(target.revenue);
+  const ebitdaBand = band(target.ebitda);
+  const prefilter: Prisma.DealWhereInput[] = [
+    { industry: { equals: target.industry, mode: "insensitive" } },
+    ...(revenueBand ? [{ revenue: revenueBand }] : []),
+    ...(ebitdaBand ? [{ ebitda: ebitdaBand }] : []),
+  ];
+
+  const candidates = await prismaDB.deal.findMany({
+    where: {
+      id: { not: dealId },
+      OR: prefilter,
+      ...(options.screenedOnly
+        ? { AiScreening: { some: screeningFilter } }
+        : {}),
+    },
+    select: {
+      ...dealSelect,
+      AiScreening: {
+        where: screeningFilter,
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: {
+          id: true,
+          title: true,
+          score: true,
+          sentiment: true,
+          screenerId: true,
+          createdAt: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+
+  let embed: ((deal: ComparableDealFields) => number[]) | undefined;
+  if (options.includeText) {
+    // The local embedding keeps the lookup free of model calls
+    const backend = createLocalEmbeddingBackend();
+    const dealText = (deal: ComparableDealFields) =>
+      [deal.title, deal.dealCaption, deal.dealTeaser]
+        .filter(Boolean)
+        .join("\n");
+    const deals = [target, ...candidates];
+    const vectors = await backend.embed(deals.map(dealText));
+    const byId = new Map(deals.map((deal, i) => [deal.id, vectors[i]!]));
+    embed = (deal) => byId.get(deal.id)!;
+  }
+
+  return candidates
+    .map(({ AiScreening: screenings, ...candidate }) => ({
+      ...candidate,
+      ...compareDeals(target, candidate, embed),
+      screening: screenings[0] ?? null,
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit ?? 10);
+}
+
+export type ComparableDeal = NonNullable<
+  Awaited<ReturnType<typeof findComparableDeals>>
+>[number];
+
+/**
+ * Renders comparables for a prompt: what the deal was and how it scored
+ */
+export function formatComparables(comparables: ComparableDeal[]) {
+  return comparables
+    .map((deal, i) => {
+      const screening = deal.screening
+        ? `scored ${deal.screening.score ?? "n/a"}/10 (${deal.screening.sentiment}): ${deal.screening.title}`
+        : "not screened";
+      return `${i + 1}. ${deal.title ?? deal.dealCaption} - ${deal.industry}, revenue ${deal.revenue}, EBITDA ${deal.ebitda} (${deal.ebitdaMargin}% margin), ${deal.companyLocation ?? "location unknown"}; ${screening}; similarity ${deal.similarity.toFixed(2)}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,132 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { MAX_UPLOAD_BYTES } from "../upload";
+
+const DOCUMENT_DOWNLOAD_TIMEOUT_MS =
+  Number(process.env.DOCUMENT_DOWNLOAD_TIMEOUT_MS) || 60000;
+
+// Only storage the main app uploads to is fetched from
+const DOCUMENT_DOWNLOAD_HOSTS = (
+  process.env.DOCUMENT_DOWNLOAD_HOSTS || "storage.googleapis.com"
+)
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Loopback, private, link-local (incl. the metadata server) and other
+// non-public ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export type DownloadResult =
+  | { success: true; body: Buffer; contentType: string | null }
+  | { success: false; status: number; error: string };
+
+const failure = (status: number, error: string) => ({
+  success: false as const,
+  status,
+  error,
+});
+
+/**
+ * Checks that a URL points at an allowed storage host that resolves to public
+ * addresses only
+ * @returns Why the URL may not be fetched, or null
+ */
+async function getBlockedUrlReason(url: URL) {
+  if (url.protocol !== "https:") return "Only https document URLs are allowed";
+
+  const hostname = url.hostname.toLowerCase();
+  if (!DOCUMENT_DOWNLOAD_HOSTS.includes(hostname)) {
+    return `Document host ${hostname} is not allowed`;
+  }
+
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+  const blocked = addresses.some(({ address, family }) =>
+    blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked
+    ? `Document host ${hostname} resolves to a private address`
+    : null;
+}
+
+/**
+ * Downloads a stored document from an allowed storage host, reading at most
+ * MAX_UPLOAD_BYTES
+ * @param signal - Aborts the download
+ * @returns The file, or an error with the HTTP status to respond with
+ */
+export async function downloadDocument(
+  documentUrl: string,
+  signal?: AbortSignal
+): Promise<DownloadResult> {
+  let url: URL;
+  try {
+    url = new URL(documentUrl);
+  } catch {
+    return failure(422, "Document has no downloadable URL");
+  }
+
+  const blockedReason = await getBlockedUrlReason(url);
+  if (blockedReason) return failure(422, blockedReason);
+
+  // Redirects could lead anywhere, so they aren't followed
+  const response = await fetch(url, {
+    redirect: "error",
+    signal: AbortSignal.any([
+      AbortSignal.timeout(DOCUMENT_DOWNLOAD_TIMEOUT_MS),
+      ...(signal ? [signal] : []),
+    ]),
+  });
+  if (!response.ok || !response.body) {
+    return failure(
+      502,
+      `Document download failed with status ${response.status}`
+    );
+  }
+
+  const tooLarge = failure(
+    413,
+    `Document is larger than ${MAX_UPLOAD_BYTES} bytes`
+  );
+  if (Number(response.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+    await response.body.cancel();
+    return tooLarge;
+  }
+
+  // The header may be missing or wrong, so the stream is capped too
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.byteLength;
+    if (size > MAX_UPLOAD_BYTES) return tooLarge;
+    chunks.push(chunk);
+  }
+
+  return {
+    success: true,
+    body: Buffer.concat(chunks),
+    contentType: response.headers.get("content-type"),
+  };
+}
@@ -0,0 +1,141 @@
+import path from "path";
+import { PDFParse } from "pdf-parse";
+import mammoth from "mammoth";
+import * as XLSX from "xlsx";
+import { logger } from "../observability/logger";
+
+export type DocumentFormat = "pdf" | "docx" | "xlsx" | "txt" | "markdown";
+
+export type ExtractionResult =
+  | { success: true; format: DocumentFormat; text: string }
+  | {
+      success: false;
+      reason: "unsupported" | "unparseable" | "empty";
+      message: string;
+    };
+
+const MIME_TYPE_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.ms-excel": "xlsx",
+  "text/plain": "txt",
+  "text/csv": "txt",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".xls": "xlsx",
+  ".txt": "txt",
+  ".csv": "txt",
+  ".md": "markdown",
+  ".markdown": "markdown",
+};
+
+/**
+ * Resolves the document format from the MIME type, falling back to the file
+ * extension when the client sent a generic type like application/octet-stream
+ */
+export function detectDocumentFormat(
+  mimeType: string,
+  fileName: string
+): DocumentFormat | null {
+  const byMimeType = MIME_TYPE_FORMATS[mimeType.toLowerCase()];
+  if (byMimeType) return byMimeType;
+
+  const extension = path.extname(fileName).toLowerCase();
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocxText(buffer: Buffer): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer });
+  return result.value;
+}
+
+async function extractXlsxText(buffer: Buffer): Promise<string> {
+  const workbook = XLSX.read(buffer, { type: "buffer" });
+
+  return workbook.SheetNames.map((sheetName) => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) return "";
+    const csv = XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
+    return `## ${sheetName}\n${csv}`;
+  })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+async function extractPlainText(buffer: Buffer): Promise<string> {
+  return buffer.toString("utf-8");
+}
+
+const extractors: Record<DocumentFormat, (buffer: Buffer) => Promise<string>> =
+  {
+    pdf: extractPdfText,
+    docx: extractDocxText,
+    xlsx: extractXlsxText,
+    txt: extractPlainText,
+    markdown: extractPlainText,
+  };
+
+/**
+ * Pulls the plain text out of an uploaded document
+ * @param buffer - The raw file contents
+ * @param mimeType - The MIME type reported by the client
+ * @param fileName - The original file name, used when the MIME type is generic
+ * @returns The extracted text, or the reason it could not be extracted
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string
+): Promise<ExtractionResult> {
+  const format = detectDocumentFormat(mimeType, fileName);
+
+  if (!format) {
+    return {
+      success: false,
+      reason: "unsupported",
+      message: `Unsupported file type: ${mimeType} (${fileName})`,
+    };
+  }
+
+  let text: string;
+  try {
+    text = await extractors[format](buffer);
+  } catch (error) {
+    logger.error(`Error extracting ${format} text from ${fileName}`, { error });
+    return {
+      success: false,
+      reason: "unparseable",
+      message: `Could not parse ${format} file: ${fileName}`,
+    };
+  }
+
+  text = text.replace(/\r\n/g, "\n").replace(/\u0000/g, "").trim();
+
+  if (!text) {
+    return {
+      success: false,
+      reason: "empty",
+      message: `No text could be extracted from ${fileName}`,
+    };
+  }
+
+  return { success: true, format, text };
+}
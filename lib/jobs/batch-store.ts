@@ -0,0 +1,217 @@
+import redis from "../redis";
+import { JOB_RETENTION_SECONDS } from "./job-store";
+
+export type BatchStatus = "processing" | "done" | "failed" | "cancelled";
+export type BatchOutcome = "done" | "failed" | "skipped";
+
+export type BatchRecord = {
+  batchId: string;
+  status: BatchStatus;
+  // Many deals against one screener, or one deal against many screeners
+  mode: "screener" | "deal";
+  userId: string;
+  screenerId?: string;
+  dealId?: string;
+  // Children stop starting once the batch has cost this much
+  maxCostUsd?: number;
+  total: number;
+  // Children pushed onto the dealListings queue so far
+  queued: number;
+  done: number;
+  failed: number;
+  skipped: number;
+  // Why the remaining child screenings were skipped
+  stopReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type BatchScreening = {
+  dealId: string;
+  screenerId: string;
+  aiScreeningId: string;
+  score: number;
+};
+
+export type BatchSummary = BatchRecord & { topScreenings: BatchScreening[] };
+
+const batchKey = (batchId: string) => `batch:${batchId}`;
+// Scored child screenings, best first, for the summary
+const batchScoresKey = (batchId: string) => `batch:${batchId}:scores`;
+// The deal/screener pair of each child, in child order
+const batchPairsKey = (batchId: string) => `batch:${batchId}:pairs`;
+
+const countFields = ["total", "queued", "done", "failed", "skipped"] as const;
+type BatchCounts = Record<(typeof countFields)[number], number>;
+
+export type BatchPair = { dealId: string; screenerId: string };
+
+function getRedisClient() {
+  if (!redis) throw new Error("Redis not configured");
+  return redis;
+}
+
+/**
+ * Starts tracking a batch and stores the pairs its children screen. A batch
+ * that already exists, e.g. when its message is redelivered, is left as is.
+ * @returns The batch as stored
+ */
+export async function createBatch(
+  batch: Pick<
+    BatchRecord,
+    "batchId" | "mode" | "userId" | "screenerId" | "dealId" | "maxCostUsd"
+  >,
+  pairs: BatchPair[]
+): Promise<BatchRecord> {
+  const client = getRedisClient();
+  const existing = await getBatch(batch.batchId);
+  if (existing) return existing;
+
+  const nowIso = new Date().toISOString();
+  const fields: Record<string, string> = {
+    status: "processing",
+    total: String(pairs.length),
+    queued: "0",
+    done: "0",
+    failed: "0",
+    skipped: "0",
+    createdAt: nowIso,
+    updatedAt: nowIso,
+  };
+  for (const [field, value] of Object.entries(batch)) {
+    if (value !== undefined) fields[field] = String(value);
+  }
+
+  const multi = client
+    .multi()
+    .hset(batchKey(batch.batchId), fields)
+    .expire(batchKey(batch.batchId), JOB_RETENTION_SECONDS);
+  if (pairs.length > 0) {
+    multi
+      .rpush(
+        batchPairsKey(batch.batchId),
+        ...pairs.map((pair) => JSON.stringify(pair))
+      )
+      .expire(batchPairsKey(batch.batchId), JOB_RETENTION_SECONDS);
+  }
+  await multi.exec();
+
+  return (await getBatch(batch.batchId))!;
+}
+
+/**
+ * Returns the pair of the child at `index`
+ */
+export async function getBatchPair(
+  batchId: string,
+  index: number
+): Promise<BatchPair | null> {
+  const pair = await getRedisClient().lindex(batchPairsKey(batchId), index);
+  return pair ? (JSON.parse(pair) as BatchPair) : null;
+}
+
+/**
+ * Counts a child pushed onto the queue, so a restarted fan-out resumes after it
+ */
+export async function recordBatchChildQueued(batchId: string) {
+  await getRedisClient().hincrby(batchKey(batchId), "queued", 1);
+}
+
+/**
+ * Records why the remaining children are skipped; the first reason wins
+ */
+export async function stopBatch(batchId: string, stopReason: string) {
+  await getRedisClient().hsetnx(batchKey(batchId), "stopReason", stopReason);
+}
+
+/**
+ * Counts a finished child screening and ranks its score. The counts are read
+ * in the same transaction, so exactly one child sees the batch complete.
+ * @returns The batch counts after this child
+ */
+export async function recordBatchChild(
+  batchId: string,
+  outcome: BatchOutcome,
+  screening?: BatchScreening | null
+) {
+  const client = getRedisClient();
+
+  const multi = client
+    .multi()
+    .hincrby(batchKey(batchId), outcome, 1)
+    .hset(batchKey(batchId), "updatedAt", new Date().toISOString());
+  if (screening) {
+    const { score, ...member } = screening;
+    multi
+      .zadd(batchScoresKey(batchId), score, JSON.stringify(member))
+      .expire(batchScoresKey(batchId), JOB_RETENTION_SECONDS);
+  }
+  multi.hmget(batchKey(batchId), ...countFields);
+  const results = await multi.exec();
+
+  const counts = (results?.at(-1)?.[1] ?? []) as (string | null)[];
+  return Object.fromEntries(
+    countFields.map((field, i) => [field, Number(counts[i]) || 0])
+  ) as BatchCounts;
+}
+
+/**
+ * Records the final status of a batch
+ */
+export async function finishBatch(
+  batchId: string,
+  status: Exclude<BatchStatus, "processing">
+) {
+  const nowIso = new Date().toISOString();
+  await getRedisClient().hset(batchKey(batchId), {
+    status,
+    updatedAt: nowIso,
+    finishedAt: nowIso,
+  });
+}
+
+function toBatchRecord(hash: Record<string, string>): BatchRecord {
+  return {
+    ...(hash as unknown as BatchRecord),
+    ...(hash.maxCostUsd ? { maxCostUsd: Number(hash.maxCostUsd) } : {}),
+    ...(Object.fromEntries(
+      countFields.map((field) => [field, Number(hash[field]) || 0])
+    ) as BatchCounts),
+  };
+}
+
+/**
+ * Reads a batch with its counts
+ * @returns The batch, or null when it never existed or has expired
+ */
+export async function getBatch(batchId: string): Promise<BatchRecord | null> {
+  const hash = await getRedisClient().hgetall(batchKey(batchId));
+  return hash.batchId ? toBatchRecord(hash) : null;
+}
+
+/**
+ * Reads a batch with its counts and best scoring screenings
+ * @returns The batch, or null when it never existed or has expired
+ */
+export async function getBatchSummary(
+  batchId: string,
+  top: number
+): Promise<BatchSummary | null> {
+  const client = getRedisClient();
+  const [hash, scored] = await Promise.all([
+    client.hgetall(batchKey(batchId)),
+    client.zrevrange(batchScoresKey(batchId), 0, top - 1, "WITHSCORES"),
+  ]);
+  if (!hash.batchId) return null;
+
+  const topScreenings: BatchScreening[] = [];
+  for (let i = 0; i < scored.length; i += 2) {
+    topScreenings.push({
+      ...JSON.parse(scored[i]!),
+      score: Number(scored[i + 1]),
+    });
+  }
+
+  return { ...toBatchRecord(hash), topScreenings };
+}
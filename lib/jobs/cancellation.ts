@@ -0,0 +1,119 @@
+import redis from "../redis";
+import { JOB_CANCEL_CHANNEL } from "./job-store";
+import { subscribeToJobCancellations } from "./job-events";
+import { logger } from "../observability/logger";
+
+// Pub/Sub stops waiting for a push response after 10 minutes
+const DEFAULT_JOB_TIMEOUT_MS = Number(process.env.JOB_TIMEOUT_MS) || 540000;
+
+// Kept as long as the job dedup marker, so a redelivered message of a
+// cancelled job is cancelled too
+const CANCEL_MARKER_TTL_SECONDS = 86400;
+
+const cancelMarkerKey = (jobId: string) => `job:${jobId}:cancel`;
+
+// Jobs running on this instance
+const runningJobs = new Map<string, AbortController>();
+let cancelListener: Promise<unknown> | null = null;
+
+export type CancellableJob = {
+  // Aborted when the job is cancelled or runs out of time
+  signal: AbortSignal;
+  cancelled: () => boolean;
+  timedOut: () => boolean;
+  // Stops the job without cancelling it, when shutdown gives up waiting for it
+  abandon: () => void;
+  abandoned: () => boolean;
+  timeoutMs: number;
+  release: () => void;
+};
+
+function getRedisClient() {
+  if (!redis) throw new Error("Redis not configured");
+  return redis;
+}
+
+/**
+ * Resolves the overall timeout of a job type from JOB_TIMEOUT_<TYPE>_MS,
+ * falling back to the handler's own default, then JOB_TIMEOUT_MS
+ */
+export function getJobTimeoutMs(jobType: string, handlerTimeoutMs?: number) {
+  // re-screen-all -> RE_SCREEN_ALL
+  const segment = jobType.replace(/\W+/g, "_").toUpperCase();
+  return (
+    Number(process.env[`JOB_TIMEOUT_${segment}_MS`]) ||
+    handlerTimeoutMs ||
+    DEFAULT_JOB_TIMEOUT_MS
+  );
+}
+
+function listenForCancellations() {
+  cancelListener ??= subscribeToJobCancellations((jobId) => {
+    const controller = runningJobs.get(jobId);
+    if (!controller) return;
+    logger.info(`Cancelling job ${jobId}`, { jobId });
+    controller.abort(new Error("Job cancelled"));
+  }).catch((error) => {
+    cancelListener = null;
+    logger.error("Failed to subscribe to job cancellations", { error });
+  });
+  return cancelListener;
+}
+
+/**
+ * Asks the instance running a job to stop it. The marker also cancels the job
+ * if it hasn't started yet.
+ */
+export async function requestJobCancellation(jobId: string) {
+  const client = getRedisClient();
+  await client.set(cancelMarkerKey(jobId), "1", "EX", CANCEL_MARKER_TTL_SECONDS);
+  await client.publish(JOB_CANCEL_CHANNEL, JSON.stringify({ jobId }));
+}
+
+/**
+ * Whether cancellation of a job was requested, for work that runs outside
+ * startCancellableJob such as the queued children of a batch
+ */
+export async function isJobCancellationRequested(jobId: string) {
+  return (await getRedisClient().exists(cancelMarkerKey(jobId))) === 1;
+}
+
+/**
+ * Registers a job as running on this instance and returns the signal that
+ * aborts its model calls when it is cancelled, exceeds `timeoutMs` or is
+ * abandoned. Call
+ * `release` once the job has finished.
+ */
+export async function startCancellableJob(
+  jobId: string,
+  timeoutMs: number
+): Promise<CancellableJob> {
+  await listenForCancellations();
+
+  const controller = new AbortController();
+  const timeout = AbortSignal.timeout(timeoutMs);
+  runningJobs.set(jobId, controller);
+
+  // The cancellation may have arrived before the job started
+  if (await getRedisClient().exists(cancelMarkerKey(jobId))) {
+    controller.abort(new Error("Job cancelled"));
+  }
+
+  const abandonController = new AbortController();
+
+  return {
+    signal: AbortSignal.any([
+      controller.signal,
+      timeout,
+      abandonController.signal,
+    ]),
+    cancelled: () => controller.signal.aborted,
+    timedOut: () => timeout.aborted && !controller.signal.aborted,
+    abandon: () => abandonController.abort(new Error("Job abandoned")),
+    abandoned: () => abandonController.signal.aborted,
+    timeoutMs,
+    release: () => {
+      if (runningJobs.get(jobId) === controller) runningJobs.delete(jobId);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import { defineJobHandler } from "../job-handler";
+import { extractDocumentPayloadSchema } from "../../schemas/extract-document-payload-schema";
+import { extractDealDocument } from "../../actions/extract-deal-document";
+
+/**
+ * Downloads a deal document and extracts its text for screenings
+ */
+export const extractDocumentJob = defineJobHandler({
+  schema: extractDocumentPayloadSchema,
+  run: async ({ documentId }, { signal }) => {
+    const result = await extractDealDocument(documentId, signal);
+    if (!result.success) return { success: false, message: result.error };
+    return { success: true };
+  },
+});
@@ -0,0 +1,16 @@
+import { defineJobHandler } from "../job-handler";
+import { generateSimPayloadSchema } from "../../schemas/generate-sim-payload-schema";
+import { generateSim } from "../../actions/generate-sim";
+
+/**
+ * Writes and renders a Summary Information Memorandum for a deal
+ */
+export const generateSimJob = defineJobHandler({
+  schema: generateSimPayloadSchema,
+  describe: ({ dealId }) => ({ dealId }),
+  run: async ({ dealId, simId }, { signal }) => {
+    const result = await generateSim(dealId, { simId, signal });
+    if (!result.success) return { success: false, message: result.error };
+    return { success: true, simId: result.sim.id };
+  },
+});
@@ -0,0 +1,22 @@
+import { defineJobHandler } from "../job-handler";
+import { rescreenAllPayloadSchema } from "../../schemas/rescreen-all-payload-schema";
+import { enqueueScreenerRescreening } from "../../queue/deal-listings-queue";
+import prismaDB from "../../prisma";
+
+/**
+ * Queues every deal screened with a screener for a new screening
+ */
+export const rescreenAllJob = defineJobHandler({
+  schema: rescreenAllPayloadSchema,
+  describe: ({ screenerId }) => ({ screenerId }),
+  run: async ({ screenerId }) => {
+    const screener = await prismaDB.screener.findFirst({
+      where: { id: screenerId },
+      select: { id: true },
+    });
+    if (!screener) return { success: false, message: "Screener not found" };
+
+    await enqueueScreenerRescreening(screenerId);
+    return { success: true };
+  },
+});
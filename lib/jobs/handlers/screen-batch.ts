@@ -0,0 +1,13 @@
+import { defineJobHandler } from "../job-handler";
+import { screenBatchPayloadSchema } from "../../schemas/screen-batch-payload-schema";
+import { runScreeningBatch } from "../../screening/batch";
+
+/**
+ * Screens many deals against a screener, or a deal against every active
+ * screener, as child jobs of this one on the dealListings queue
+ */
+export const screenBatchJob = defineJobHandler({
+  schema: screenBatchPayloadSchema,
+  describe: ({ dealId, screenerId }) => ({ dealId, screenerId }),
+  run: runScreeningBatch,
+});
@@ -0,0 +1,29 @@
+import { defineJobHandler } from "../job-handler";
+import { screenDealPayloadSchema } from "../../schemas/screen-deal-payload-schema";
+import { evaluateDealAndSaveResult } from "../../actions/evaluate-deal";
+
+/**
+ * Screens one deal against one screener and saves the AiScreening
+ */
+export const screenDealJob = defineJobHandler({
+  schema: screenDealPayloadSchema,
+  describe: ({ dealId, screenerId }) => ({ dealId, screenerId }),
+  run: async (payload, { signal, reportProgress }) => {
+    const result = await evaluateDealAndSaveResult(
+      payload.dealId,
+      payload.screenerId,
+      {
+        onProgress: reportProgress,
+        force: payload.force,
+        screenerVersionId: payload.screenerVersionId,
+        comparables: payload.comparables,
+        signal,
+      }
+    );
+
+    if (!result.success) {
+      return { success: false, message: result.message };
+    }
+    return { success: true, aiScreeningId: result.evaluationId };
+  },
+});
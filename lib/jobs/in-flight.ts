@@ -0,0 +1,72 @@
+import { logger } from "../observability/logger";
+
+type InFlightJob = {
+  startedAt: number;
+  abandon: () => Promise<void>;
+};
+
+const inFlightJobs = new Map<string, InFlightJob>();
+let draining = false;
+
+const DRAIN_POLL_MS = 100;
+
+/**
+ * Whether the service is shutting down and must not accept new work
+ */
+export function isDraining() {
+  return draining;
+}
+
+export function getInFlightJobCount() {
+  return inFlightJobs.size;
+}
+
+/**
+ * Registers a job as running on this instance until the returned function
+ * is called. `abandon` is invoked if the job is still running when the
+ * drain deadline passes and must leave the job retryable.
+ */
+export function trackInFlightJob(id: string, abandon: () => Promise<void>) {
+  const job: InFlightJob = { startedAt: Date.now(), abandon };
+  inFlightJobs.set(id, job);
+
+  return () => {
+    if (inFlightJobs.get(id) === job) inFlightJobs.delete(id);
+  };
+}
+
+/**
+ * Stops accepting new work and waits for in-flight jobs to finish. Jobs still
+ * running after `timeoutMs` are abandoned.
+ * @returns The ids of the abandoned jobs
+ */
+export async function drainInFlightJobs(timeoutMs: number) {
+  draining = true;
+  const deadline = Date.now() + timeoutMs;
+
+  if (inFlightJobs.size > 0) {
+    logger.info(`Draining ${inFlightJobs.size} in-flight jobs`, { timeoutMs });
+  }
+
+  while (inFlightJobs.size > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_MS));
+  }
+
+  const abandoned = [...inFlightJobs.entries()];
+  inFlightJobs.clear();
+
+  await Promise.all(
+    abandoned.map(async ([id, job]) => {
+      logger.warn(`Abandoning in-flight job ${id}`, {
+        runningMs: Date.now() - job.startedAt,
+      });
+      try {
+        await job.abandon();
+      } catch (error) {
+        logger.error(`Failed to abandon job ${id}`, { error });
+      }
+    })
+  );
+
+  return abandoned.map(([id]) => id);
+}
@@ -0,0 +1,103 @@
+import type Redis from "ioredis";
+import redis, { trackRedisErrors } from "../redis";
+import { JOB_CANCEL_CHANNEL, JOB_UPDATES_CHANNEL } from "./job-store";
+import { logger } from "../observability/logger";
+
+export type JobUpdateMessage = {
+  jobId: string;
+  status: string;
+  [key: string]: unknown;
+};
+
+type JobUpdateListener = (message: JobUpdateMessage) => void;
+type JobCancelListener = (jobId: string) => void;
+
+// A subscribed ioredis connection can't run other commands, so all listeners
+// share one dedicated connection
+let subscriber: Redis | null = null;
+let subscribed: Promise<unknown> | null = null;
+const listeners = new Map<string, Set<JobUpdateListener>>();
+const cancelListeners = new Set<JobCancelListener>();
+
+function getSubscriber() {
+  if (subscribed) return subscribed;
+  if (!redis) throw new Error("Redis not configured");
+
+  subscriber = redis.duplicate();
+  trackRedisErrors(subscriber, "subscriber");
+  subscriber.on("message", (channel: string, raw: string) => {
+    let message: JobUpdateMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      logger.error(`Invalid ${channel} message`, { raw });
+      return;
+    }
+
+    if (channel === JOB_CANCEL_CHANNEL) {
+      for (const listener of cancelListeners) listener(message.jobId);
+      return;
+    }
+    if (channel !== JOB_UPDATES_CHANNEL) return;
+
+    for (const listener of listeners.get(message.jobId) ?? []) {
+      listener(message);
+    }
+  });
+  subscribed = subscriber
+    .subscribe(JOB_UPDATES_CHANNEL, JOB_CANCEL_CHANNEL)
+    .then(() => {
+      logger.info(`Subscribed to ${JOB_UPDATES_CHANNEL} and ${JOB_CANCEL_CHANNEL}`);
+    });
+  subscribed.catch(() => {
+    subscribed = null;
+  });
+
+  return subscribed;
+}
+
+/**
+ * Calls the listener for every update published for the given job
+ * @returns A function that removes the listener
+ */
+export async function subscribeToJobUpdates(
+  jobId: string,
+  listener: JobUpdateListener
+) {
+  await getSubscriber();
+
+  const jobListeners = listeners.get(jobId) ?? new Set();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) listeners.delete(jobId);
+  };
+}
+
+/**
+ * Calls the listener with the id of every job cancelled on the job-cancel
+ * channel
+ * @returns A function that removes the listener
+ */
+export async function subscribeToJobCancellations(listener: JobCancelListener) {
+  await getSubscriber();
+  cancelListeners.add(listener);
+  return () => {
+    cancelListeners.delete(listener);
+  };
+}
+
+/**
+ * Closes the shared job-updates subscriber connection
+ */
+export async function closeJobUpdatesSubscriber() {
+  if (!subscriber) return;
+  const connection = subscriber;
+  subscriber = null;
+  subscribed = null;
+  listeners.clear();
+  cancelListeners.clear();
+  await connection.quit();
+}
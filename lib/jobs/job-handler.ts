@@ -0,0 +1,72 @@
+import type { z } from "zod";
+import type { jobEnvelopeType } from "../schemas/job-envelope-schema";
+import type { JobProgress } from "./job-store";
+
+export type JobHandlerContext = {
+  jobId: string;
+  // Aborted when the job is cancelled or times out
+  signal: AbortSignal;
+  reportProgress: (progress: JobProgress) => Promise<void>;
+};
+
+export type JobHandlerResult =
+  | {
+      success: true;
+      aiScreeningId?: string;
+      simId?: string;
+      // The job stays processing; whatever the handler started finishes it
+      detached?: boolean;
+    }
+  | { success: false; message: string };
+
+type JobIds = { dealId?: string; screenerId?: string };
+
+type JobHandlerDefinition<T extends jobEnvelopeType> = {
+  // Extends jobEnvelopeSchema with the job's own fields
+  schema: z.ZodType<T>;
+  // Ids recorded on the job and its log lines
+  describe?: (payload: T) => JobIds;
+  // Overall timeout unless JOB_TIMEOUT_<TYPE>_MS is set, see getJobTimeoutMs
+  timeoutMs?: number;
+  run: (payload: T, context: JobHandlerContext) => Promise<JobHandlerResult>;
+};
+
+// A validated payload, bound to the handler that runs it
+export type ParsedJob = JobIds & {
+  run: (context: JobHandlerContext) => Promise<JobHandlerResult>;
+};
+
+type ParseJobResult =
+  | { success: true; job: ParsedJob }
+  | { success: false; error: z.ZodError };
+
+export type JobHandler = {
+  timeoutMs?: number;
+  parse: (payload: unknown) => ParseJobResult;
+};
+
+/**
+ * Builds a handler that validates payloads with its schema, so the registry
+ * can hold handlers of any payload type
+ */
+export function defineJobHandler<T extends jobEnvelopeType>(
+  definition: JobHandlerDefinition<T>
+): JobHandler {
+  return {
+    timeoutMs: definition.timeoutMs,
+    parse: (payload) => {
+      const validated = definition.schema.safeParse(payload);
+      if (!validated.success) {
+        return { success: false, error: validated.error };
+      }
+      const jobPayload = validated.data;
+      return {
+        success: true,
+        job: {
+          ...definition.describe?.(jobPayload),
+          run: (context) => definition.run(jobPayload, context),
+        },
+      };
+    },
+  };
+}
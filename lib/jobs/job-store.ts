@@ -0,0 +1,220 @@
+import redis from "../redis";
+import { logger } from "../observability/logger";
+import { jobsTotal } from "../observability/metrics";
+
+export const JOB_UPDATES_CHANNEL = "job-updates";
+// Carries {"jobId": "..."} messages asking whichever instance runs the job
+// to stop it
+export const JOB_CANCEL_CHANNEL = "job-cancel";
+
+// How long a job hash (and its index entries) is kept after the last update
+export const JOB_RETENTION_SECONDS =
+  Number(process.env.JOB_RETENTION_SECONDS) || 7 * 24 * 60 * 60;
+
+const JOBS_INDEX_KEY = "jobs:index";
+
+// "retrying" marks a job abandoned by a shutting-down instance; the next
+// delivery of its message picks it up again
+export const jobStatuses = [
+  "processing",
+  "done",
+  "failed",
+  "cancelled",
+  "retrying",
+] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+/**
+ * Whether a job has reached a status it never leaves
+ */
+export const isFinishedStatus = (status: string) =>
+  status === "done" || status === "failed" || status === "cancelled";
+
+export type JobProgress =
+  | { stage: "evaluating_chunks"; current: number; total: number }
+  | { stage: "generating_summary" }
+  | {
+      stage: "screening_batch";
+      completed: number;
+      failed: number;
+      skipped: number;
+      total: number;
+    }
+  | { stage: "saved"; aiScreeningId: string };
+
+export type JobRecord = {
+  jobId: string;
+  status: JobStatus;
+  jobType?: string;
+  userId?: string;
+  dealId?: string;
+  screenerId?: string;
+  aiScreeningId?: string;
+  simId?: string;
+  // The batch job a child screening belongs to
+  batchId?: string;
+  error?: string;
+  progress?: JobProgress;
+  createdAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  updatedAt?: string;
+};
+
+type JobUpdate = Partial<Omit<JobRecord, "jobId" | "progress">> & {
+  status: JobStatus;
+};
+
+export const jobKey = (jobId: string) => `job:${jobId}`;
+const userJobsIndexKey = (userId: string) => `jobs:user:${userId}`;
+
+function getRedisClient() {
+  if (!redis) throw new Error("Redis not configured");
+  return redis;
+}
+
+/**
+ * Writes the given fields into the job hash, refreshes the retention window
+ * and publishes the status change on the job-updates channel
+ */
+export async function updateJob(jobId: string, update: JobUpdate) {
+  const client = getRedisClient();
+  const now = new Date();
+  const nowIso = now.toISOString();
+
+  const fields: Record<string, string> = { updatedAt: nowIso };
+  for (const [field, value] of Object.entries(update)) {
+    if (value !== undefined) fields[field] = String(value);
+  }
+  if (isFinishedStatus(update.status)) {
+    fields.finishedAt = nowIso;
+  }
+
+  const expiredBefore = now.getTime() - JOB_RETENTION_SECONDS * 1000;
+
+  const multi = client.multi();
+  multi.hsetnx(jobKey(jobId), "createdAt", nowIso);
+  if (update.status === "processing") {
+    multi.hsetnx(jobKey(jobId), "startedAt", nowIso);
+  }
+  multi.hset(jobKey(jobId), { jobId, ...fields });
+  multi.expire(jobKey(jobId), JOB_RETENTION_SECONDS);
+  multi.zadd(JOBS_INDEX_KEY, "NX", now.getTime(), jobId);
+  multi.zremrangebyscore(JOBS_INDEX_KEY, "-inf", expiredBefore);
+  if (update.userId) {
+    multi.zadd(userJobsIndexKey(update.userId), "NX", now.getTime(), jobId);
+    multi.zremrangebyscore(
+      userJobsIndexKey(update.userId),
+      "-inf",
+      expiredBefore
+    );
+    multi.expire(userJobsIndexKey(update.userId), JOB_RETENTION_SECONDS);
+  }
+  await multi.exec();
+
+  const message = JSON.stringify({
+    jobId,
+    status: update.status,
+    ...(update.error ? { error: update.error } : {}),
+    ...(update.aiScreeningId ? { aiScreeningId: update.aiScreeningId } : {}),
+    ...(update.simId ? { simId: update.simId } : {}),
+  });
+  await client.publish(JOB_UPDATES_CHANNEL, message);
+  jobsTotal.inc({ status: update.status });
+  logger.debug(`Published ${update.status} update for job ${jobId}`);
+}
+
+/**
+ * Records fine-grained progress of a processing job and publishes it so live
+ * listeners can update progress bars
+ */
+export async function updateJobProgress(jobId: string, progress: JobProgress) {
+  const client = getRedisClient();
+  const nowIso = new Date().toISOString();
+
+  await client.hset(jobKey(jobId), {
+    progress: JSON.stringify(progress),
+    updatedAt: nowIso,
+  });
+
+  await client.publish(
+    JOB_UPDATES_CHANNEL,
+    JSON.stringify({ jobId, status: "processing", progress })
+  );
+}
+
+function toJobRecord(hash: Record<string, string>): JobRecord | null {
+  if (!hash.jobId || !hash.status) return null;
+  const { progress, ...fields } = hash;
+  return {
+    ...(fields as unknown as JobRecord),
+    ...(progress ? { progress: JSON.parse(progress) as JobProgress } : {}),
+  };
+}
+
+/**
+ * Reads a job back from its Redis hash
+ * @returns The job, or null when it never existed or has expired
+ */
+export async function getJob(jobId: string): Promise<JobRecord | null> {
+  const client = getRedisClient();
+  const hash = await client.hgetall(jobKey(jobId));
+  // Hashes written before the job store existed only carry a status
+  if (hash.status && !hash.jobId) hash.jobId = jobId;
+  return toJobRecord(hash);
+}
+
+/**
+ * Lists the most recent jobs, optionally filtered by user and status
+ */
+export async function listJobs(options: {
+  userId?: string;
+  status?: JobStatus;
+  limit: number;
+  offset: number;
+}): Promise<JobRecord[]> {
+  const client = getRedisClient();
+  const indexKey = options.userId
+    ? userJobsIndexKey(options.userId)
+    : JOBS_INDEX_KEY;
+
+  const jobs: JobRecord[] = [];
+  const pageSize = Math.max(options.limit, 50);
+  let skipped = 0;
+  let start = 0;
+
+  // Status filtering happens after reading the hashes, so page through the
+  // index until enough matching jobs have been collected
+  while (jobs.length < options.limit) {
+    const jobIds = await client.zrevrange(indexKey, start, start + pageSize - 1);
+    if (jobIds.length === 0) break;
+    start += jobIds.length;
+
+    const pipeline = client.pipeline();
+    for (const jobId of jobIds) pipeline.hgetall(jobKey(jobId));
+    const results = (await pipeline.exec()) ?? [];
+
+    const expiredJobIds: string[] = [];
+    results.forEach(([error, hash], i) => {
+      const jobId = jobIds[i]!;
+      const job = error ? null : toJobRecord(hash as Record<string, string>);
+      if (!job) {
+        expiredJobIds.push(jobId);
+        return;
+      }
+      if (options.status && job.status !== options.status) return;
+      if (skipped < options.offset) {
+        skipped++;
+        return;
+      }
+      if (jobs.length < options.limit) jobs.push(job);
+    });
+
+    if (expiredJobIds.length > 0) {
+      await client.zrem(indexKey, ...expiredJobIds);
+      start -= expiredJobIds.length;
+    }
+  }
+
+  return jobs;
+}
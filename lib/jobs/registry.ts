@@ -0,0 +1,23 @@
+import type { JobHandler } from "./job-handler";
+import { screenDealJob } from "./handlers/screen-deal";
+import { rescreenAllJob } from "./handlers/rescreen-all";
+import { extractDocumentJob } from "./handlers/extract-document";
+import { screenBatchJob } from "./handlers/screen-batch";
+import { generateSimJob } from "./handlers/generate-sim";
+
+const jobHandlers: Record<string, JobHandler> = {
+  "screen-deal": screenDealJob,
+  "re-screen-all": rescreenAllJob,
+  "extract-document": extractDocumentJob,
+  "screen-batch": screenBatchJob,
+  "generate-sim": generateSimJob,
+};
+
+export const jobTypes = Object.keys(jobHandlers);
+
+/**
+ * Returns the handler of a job type, or null for types this worker doesn't run
+ */
+export function getJobHandler(jobType: string): JobHandler | null {
+  return Object.hasOwn(jobHandlers, jobType) ? jobHandlers[jobType]! : null;
+}
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// What the current request or job is about; carried by every log line and
+// attributed to every model call
+export type JobContext = {
+  requestId?: string;
+  jobId?: string;
+  userId?: string;
+  dealId?: string;
+  screenerId?: string;
+};
+
+const jobContext = new AsyncLocalStorage<JobContext>();
+
+/**
+ * Runs `fn` with the given fields added to the current context
+ */
+export function runWithJobContext<T>(context: JobContext, fn: () => T) {
+  return jobContext.run({ ...jobContext.getStore(), ...context }, fn);
+}
+
+export function getJobContext(): JobContext {
+  return jobContext.getStore() ?? {};
+}
@@ -0,0 +1,120 @@
+import { getJobContext } from "./context";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Cloud Logging severities
+const SEVERITIES: Record<LogLevel, string> = {
+  debug: "DEBUG",
+  info: "INFO",
+  warn: "WARNING",
+  error: "ERROR",
+};
+
+const LOG_LEVEL: LogLevel =
+  (process.env.LOG_LEVEL as LogLevel) in LEVELS
+    ? (process.env.LOG_LEVEL as LogLevel)
+    : "info";
+const LOG_PRETTY = process.env.LOG_FORMAT === "pretty";
+// Deal, screener and model text stays out of the logs unless enabled
+const LOG_DEAL_CONTENT = process.env.LOG_DEAL_CONTENT === "true";
+
+const CONTENT_FIELDS = new Set([
+  "dealCaption",
+  "dealTeaser",
+  "content",
+  "screenerContent",
+  "extractedText",
+  "text",
+  "prompt",
+  "output",
+  "title",
+  "explanation",
+  "evidence",
+  "reasoning",
+  "summary",
+]);
+
+function serializeError(error: Error): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...("code" in error ? { code: error.code } : {}),
+    ...(error.cause ? { cause: toLogValue(error.cause) } : {}),
+  };
+}
+
+/**
+ * Makes a field value safe to log: errors become plain objects and deal
+ * content is replaced by its length
+ */
+function toLogValue(value: unknown, key?: string, depth = 0): unknown {
+  if (value instanceof Error) return serializeError(value);
+  if (!LOG_DEAL_CONTENT && key && CONTENT_FIELDS.has(key)) {
+    return typeof value === "string"
+      ? `[redacted ${value.length} chars]`
+      : "[redacted]";
+  }
+  if (depth >= 5 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) {
+    return value.map((item) => toLogValue(item, undefined, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([entryKey, entry]) => [
+      entryKey,
+      toLogValue(entry, entryKey, depth + 1),
+    ])
+  );
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+
+  const entry = {
+    severity: SEVERITIES[level],
+    message,
+    time: new Date().toISOString(),
+    ...getJobContext(),
+    ...(fields ? (toLogValue(fields) as LogFields) : {}),
+  };
+
+  let line: string;
+  try {
+    if (LOG_PRETTY) {
+      const { severity, time, message: _message, ...rest } = entry;
+      const extra = Object.keys(rest).length > 0 ? JSON.stringify(rest) : "";
+      line = `${time} ${severity} ${message} ${extra}`.trimEnd();
+    } else {
+      line = JSON.stringify(entry);
+    }
+  } catch {
+    // Circular or otherwise unserializable fields
+    const { severity, time } = entry;
+    line = JSON.stringify({ severity, message, time });
+  }
+
+  const stream =
+    level === "error" || level === "warn" ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+}
+
+/**
+ * Structured JSON logger. Every line carries the current job context (see
+ * ./context); set `LOG_FORMAT=pretty` for readable local output.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
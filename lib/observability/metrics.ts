@@ -0,0 +1,79 @@
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const jobsTotal = new Counter({
+  name: "worker_jobs_total",
+  help: "Screening job status changes, by status",
+  labelNames: ["status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const pipelineStageDuration = new Histogram({
+  name: "worker_pipeline_stage_duration_seconds",
+  help: "Duration of screening pipeline stages",
+  labelNames: ["stage"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+export const pipelineFailures = new Counter({
+  name: "worker_pipeline_failures_total",
+  help: "Screenings that failed, by the stage they failed in",
+  labelNames: ["stage"] as const,
+  registers: [metricsRegistry],
+});
+
+export const modelCallDuration = new Histogram({
+  name: "worker_model_call_duration_seconds",
+  help: "Latency of model call attempts",
+  labelNames: ["task", "model", "outcome"] as const,
+  buckets: [0.25, 0.5, 1, 2.5, 5, 10, 20, 40, 80, 160],
+  registers: [metricsRegistry],
+});
+
+export const modelCallErrors = new Counter({
+  name: "worker_model_call_errors_total",
+  help: "Failed model call attempts, by reason",
+  labelNames: ["task", "model", "reason"] as const,
+  registers: [metricsRegistry],
+});
+
+export const redisErrors = new Counter({
+  name: "worker_redis_errors_total",
+  help: "Redis client errors",
+  registers: [metricsRegistry],
+});
+
+export const prismaErrors = new Counter({
+  name: "worker_prisma_errors_total",
+  help: "Prisma client errors",
+  registers: [metricsRegistry],
+});
+
+new Gauge({
+  name: "worker_queue_depth",
+  help: "Items in each dealListings queue list",
+  labelNames: ["list"] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    // Imported lazily: the queue module depends on the pipeline, which
+    // records metrics
+    const { getQueueStats } = await import("../queue/deal-listings-queue");
+    try {
+      const stats = await getQueueStats();
+      for (const [list, depth] of Object.entries(stats)) {
+        this.set({ list }, depth);
+      }
+    } catch {
+      // Redis is down or not configured; the Redis error counter covers it
+    }
+  },
+});
@@ -0,0 +1,135 @@
+import redis from "../redis";
+import prismaDB from "../prisma";
+import {
+  getEmbeddingConfig,
+  getModelConfig,
+  getProviderEndpoint,
+  modelTasks,
+  type ProviderName,
+} from "../ai/model-registry";
+
+export type CheckResult = {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+};
+
+export type ReadinessReport = {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+};
+
+const CHECK_TIMEOUT_MS = Number(process.env.READINESS_TIMEOUT_MS) || 2000;
+// Provider probes are cached so frequent probes don't hammer the API
+const PROVIDER_CHECK_TTL_MS =
+  Number(process.env.READINESS_PROVIDER_TTL_MS) || 30000;
+
+const providerChecks = new Map<
+  ProviderName,
+  { result: CheckResult; checkedAt: number }
+>();
+
+async function runCheck(check: () => Promise<void>): Promise<CheckResult> {
+  const startedAt = performance.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { ok: true, latencyMs: Math.round(performance.now() - startedAt) };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function checkRedis() {
+  if (!redis) throw new Error("Redis not configured");
+  if (redis.status !== "ready") throw new Error(`Redis ${redis.status}`);
+  await redis.ping();
+}
+
+async function checkPrisma() {
+  await prismaDB.$queryRaw`SELECT 1`;
+}
+
+async function checkProvider(provider: ProviderName) {
+  const endpoint = getProviderEndpoint(provider);
+  if (!endpoint) return;
+
+  const response = await fetch(
+    `${endpoint.baseUrl.replace(/\/$/, "")}/models`,
+    {
+      headers: endpoint.apiKey
+        ? { Authorization: `Bearer ${endpoint.apiKey}` }
+        : {},
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`${provider} responded with ${response.status}`);
+  }
+}
+
+async function getProviderCheck(provider: ProviderName) {
+  const cached = providerChecks.get(provider);
+  if (cached && Date.now() - cached.checkedAt < PROVIDER_CHECK_TTL_MS) {
+    return cached.result;
+  }
+
+  const result = await runCheck(() => checkProvider(provider));
+  providerChecks.set(provider, { result, checkedAt: Date.now() });
+  return result;
+}
+
+/**
+ * Checks that Redis, the database and every configured model provider are
+ * reachable
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const checks: Record<string, CheckResult> = {};
+
+  let providers: ProviderName[] = [];
+  try {
+    providers = [
+      ...new Set([
+        ...modelTasks.map((task) => getModelConfig(task).provider),
+        getEmbeddingConfig().provider,
+      ]),
+    ];
+  } catch (error) {
+    checks.providers = {
+      ok: false,
+      latencyMs: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const [redisCheck, prismaCheck, ...providerResults] = await Promise.all([
+    runCheck(checkRedis),
+    runCheck(checkPrisma),
+    ...providers.map((provider) => getProviderCheck(provider)),
+  ]);
+  checks.redis = redisCheck!;
+  checks.prisma = prismaCheck!;
+  providers.forEach((provider, i) => {
+    checks[`provider:${provider}`] = providerResults[i]!;
+  });
+
+  return {
+    ready: Object.values(checks).every((check) => check.ok),
+    checks,
+  };
+}
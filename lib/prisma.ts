@@ -1,9 +1,24 @@
 import { PrismaClient } from "@prisma/client";
+import { logger } from "./observability/logger";
+import { prismaErrors } from "./observability/metrics";
 
 const prismaClientSingleton = () => {
-  return new PrismaClient({
-    log: ["info"],
+  const client = new PrismaClient({
+    log: [
+      { emit: "event", level: "info" },
+      { emit: "event", level: "warn" },
+      { emit: "event", level: "error" },
+    ],
   });
+
+  client.$on("info", (event) => logger.info(event.message));
+  client.$on("warn", (event) => logger.warn(event.message));
+  client.$on("error", (event) => {
+    prismaErrors.inc();
+    logger.error("Prisma error", { error: event.message });
+  });
+
+  return client;
 };
 
 declare const globalThis: {
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import RedisMock from "ioredis-mock";
+
+const QUEUE = "dealListings";
+
+process.env.QUEUE_MAX_ATTEMPTS = "2";
+process.env.QUEUE_BACKOFF_BASE_MS = "1";
+process.env.QUEUE_VISIBILITY_TIMEOUT_MS = "1000";
+
+const client = new RedisMock();
+const processSubmission = mock(async (): Promise<unknown> => ({
+  id: "screening-1",
+}));
+
+mock.module("../redis", () => ({
+  default: client,
+  trackRedisErrors: () => {},
+}));
+mock.module("../../screener", () => ({
+  QUEUE,
+  DONE_CHANNEL: "problem_done",
+  processSubmission,
+}));
+
+const { getQueueStats, listDeadLetters, processQueueBatch, replayDeadLetters } =
+  await import("./deal-listings-queue");
+
+const item = JSON.stringify({
+  id: "deal-1",
+  screenerId: "screener-1",
+  screenerContent: "EBITDA above $1M",
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+beforeEach(async () => {
+  await client.flushall();
+  processSubmission.mockReset();
+  processSubmission.mockResolvedValue({ id: "screening-1" });
+});
+
+describe("processQueueBatch", () => {
+  test("releases an item once it is processed", async () => {
+    await client.lpush(QUEUE, item);
+
+    expect(await processQueueBatch(5)).toEqual({
+      done: 1,
+      retrying: 0,
+      dead: 0,
+    });
+    expect(await getQueueStats()).toEqual({
+      queued: 0,
+      processing: 0,
+      delayed: 0,
+      dead: 0,
+    });
+  });
+
+  test("retries a failing item, then dead-letters it", async () => {
+    processSubmission.mockRejectedValue(new Error("Model unavailable"));
+    await client.lpush(QUEUE, item);
+
+    expect((await processQueueBatch(5)).retrying).toBe(1);
+    expect((await getQueueStats()).delayed).toBe(1);
+
+    await sleep(10);
+    expect((await processQueueBatch(5)).dead).toBe(1);
+    expect(processSubmission).toHaveBeenCalledTimes(2);
+
+    const [deadLetter] = await listDeadLetters(0, 10);
+    expect(deadLetter?.error).toBe("Model unavailable");
+    expect(deadLetter?.attempts).toBe(2);
+    expect(await getQueueStats()).toEqual({
+      queued: 0,
+      processing: 0,
+      delayed: 0,
+      dead: 1,
+    });
+
+    expect(await replayDeadLetters(10)).toBe(1);
+    expect((await getQueueStats()).queued).toBe(1);
+  });
+
+  test("dead-letters malformed items without retrying them", async () => {
+    await client.lpush(QUEUE, "not json");
+
+    expect((await processQueueBatch(5)).dead).toBe(1);
+    expect(processSubmission).not.toHaveBeenCalled();
+  });
+
+  test("counts the attempts of identical submissions separately", async () => {
+    processSubmission.mockRejectedValue(new Error("Model unavailable"));
+    await client.lpush(QUEUE, item, item);
+
+    expect((await processQueueBatch(5)).retrying).toBe(2);
+    expect((await getQueueStats()).delayed).toBe(2);
+  });
+
+  test("requeues items claimed longer than the visibility timeout", async () => {
+    await client.zadd(`${QUEUE}:claimed`, Date.now() - 5000, item);
+
+    await processQueueBatch(0);
+    expect(await getQueueStats()).toMatchObject({ queued: 1, processing: 0 });
+  });
+});
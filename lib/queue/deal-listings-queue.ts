@@ -0,0 +1,599 @@
+import { createHash, randomUUID } from "crypto";
+import type { AiScreening } from "@prisma/client";
+import redis from "../redis";
+import prismaDB from "../prisma";
+import {
+  DONE_CHANNEL,
+  QUEUE,
+  processSubmission,
+  type Submission,
+} from "../../screener";
+import { runWithJobContext } from "../observability/context";
+import { getCurrentScreenerVersion } from "../screening/screener-versions";
+import { logger } from "../observability/logger";
+import { isDraining, trackInFlightJob } from "../jobs/in-flight";
+import {
+  completeBatchChild,
+  getBatchChildSkipReason,
+} from "../screening/batch-children";
+
+// Claimed items, scored by when they were claimed
+const CLAIMED_KEY = `${QUEUE}:claimed`;
+const DELAYED_KEY = `${QUEUE}:delayed`;
+const ATTEMPTS_KEY = `${QUEUE}:attempts`;
+export const DEAD_LETTER_KEY = `${QUEUE}:dead`;
+
+/**
+ * Reads a positive number setting, falling back to the default when it's
+ * unset, and with a warning when it isn't a positive number
+ */
+function readPositiveSetting(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!(value > 0)) {
+    logger.warn(`Invalid ${name} "${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+const MAX_ATTEMPTS = readPositiveSetting("QUEUE_MAX_ATTEMPTS", 5);
+const BACKOFF_BASE_MS = readPositiveSetting("QUEUE_BACKOFF_BASE_MS", 30000);
+const BACKOFF_MAX_MS = readPositiveSetting("QUEUE_BACKOFF_MAX_MS", 10 * 60000);
+// Claimed items older than this are assumed to belong to a crashed worker
+const VISIBILITY_TIMEOUT_MS = readPositiveSetting(
+  "QUEUE_VISIBILITY_TIMEOUT_MS",
+  15 * 60000
+);
+// Items are aborted before the visibility timeout hands them to another
+// worker: by default a minute before it, or halfway for short timeouts
+const ITEM_TIMEOUT_MS = Math.floor(
+  Math.min(
+    readPositiveSetting(
+      "QUEUE_ITEM_TIMEOUT_MS",
+      Math.max(VISIBILITY_TIMEOUT_MS - 60000, VISIBILITY_TIMEOUT_MS / 2)
+    ),
+    VISIBILITY_TIMEOUT_MS * 0.9
+  )
+);
+const POLL_INTERVAL_MS = 1000;
+
+// Moves the next queued item into the claimed set, scored by ARGV[1]
+const CLAIM_SCRIPT = `
+local item = redis.call("RPOP", KEYS[1])
+if item then
+  redis.call("ZADD", KEYS[2], ARGV[1], item)
+end
+return item
+`;
+
+// Moves ARGV[1] from the delayed set onto the queue if it's still delayed
+const REQUEUE_DELAYED_SCRIPT = `
+if redis.call("ZREM", KEYS[1], ARGV[1]) == 1 then
+  return redis.call("LPUSH", KEYS[2], ARGV[1])
+end
+return 0
+`;
+
+// Moves the claimed ARGV[1] back onto the queue if no worker released it
+const REQUEUE_STALE_SCRIPT = `
+if redis.call("ZREM", KEYS[1], ARGV[1]) == 1 then
+  return redis.call("RPUSH", KEYS[2], ARGV[1])
+end
+return 0
+`;
+
+export type DeadLetter = {
+  item: string;
+  error: string;
+  attempts: number;
+  failedAt: string;
+};
+
+type ProcessOutcome = "done" | "retrying" | "dead";
+
+function getRedisClient() {
+  if (!redis) throw new Error("Redis not configured");
+  return redis;
+}
+
+function parseSubmission(item: string): Submission | null {
+  try {
+    const submission = JSON.parse(item);
+    if (
+      typeof submission?.id !== "string" ||
+      typeof submission?.screenerId !== "string" ||
+      typeof submission?.screenerContent !== "string"
+    ) {
+      return null;
+    }
+    return submission as Submission;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identifies an item by the queueItemId it was queued with, or by its content
+ * when it couldn't be parsed
+ */
+function itemId(item: string) {
+  return (
+    parseSubmission(item)?.queueItemId ??
+    createHash("sha1").update(item).digest("hex")
+  );
+}
+
+async function releaseClaim(item: string) {
+  await getRedisClient().zrem(CLAIMED_KEY, item);
+}
+
+async function moveToDeadLetter(
+  item: string,
+  error: string,
+  attempts: number
+) {
+  const client = getRedisClient();
+  const deadLetter: DeadLetter = {
+    item,
+    error,
+    attempts,
+    failedAt: new Date().toISOString(),
+  };
+
+  await client
+    .multi()
+    .lpush(DEAD_LETTER_KEY, JSON.stringify(deadLetter))
+    .hdel(ATTEMPTS_KEY, itemId(item))
+    .zrem(CLAIMED_KEY, item)
+    .exec();
+  logger.error(`Moved ${QUEUE} item to dead-letter queue: ${error}`);
+}
+
+/**
+ * Puts a claimed item back at the head of the queue without using up one of
+ * its attempts
+ */
+async function returnToQueue(item: string, attemptCounted: boolean) {
+  const client = getRedisClient();
+  const multi = client
+    .multi()
+    .zrem(CLAIMED_KEY, item)
+    .rpush(QUEUE, item);
+  if (attemptCounted) multi.hincrby(ATTEMPTS_KEY, itemId(item), -1);
+  await multi.exec();
+}
+
+/**
+ * Processes a claimed item while registered as in-flight work, so shutdown
+ * can wait for it or hand it back to the queue
+ */
+async function processTrackedItem(item: string): Promise<ProcessOutcome> {
+  if (isDraining()) {
+    await returnToQueue(item, false);
+    return "retrying";
+  }
+
+  const abandon = new AbortController();
+  const release = trackInFlightJob(`${QUEUE}:${itemId(item)}`, async () => {
+    abandon.abort(new Error("Item abandoned"));
+    await returnToQueue(item, true);
+    logger.warn(`Returned unfinished ${QUEUE} item to the queue`);
+  });
+  try {
+    return await processClaimedItem(item, abandon.signal);
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Processes one claimed item, scheduling a retry with exponential backoff or
+ * dead-lettering it when it keeps failing or runs past ITEM_TIMEOUT_MS
+ * @param abandoned - Aborted when shutdown has already returned the item
+ */
+async function processClaimedItem(
+  item: string,
+  abandoned: AbortSignal
+): Promise<ProcessOutcome> {
+  const client = getRedisClient();
+  const submission = parseSubmission(item);
+
+  // Malformed messages will never succeed, so don't spend retries on them
+  if (!submission) {
+    await moveToDeadLetter(item, "Malformed submission", 0);
+    return "dead";
+  }
+
+  const batchChild =
+    submission.batchId && submission.jobId
+      ? {
+          batchId: submission.batchId,
+          jobId: submission.jobId,
+          dealId: submission.id,
+          screenerId: submission.screenerId,
+        }
+      : null;
+
+  // Children of a cancelled or over-budget batch are counted, not run
+  if (batchChild) {
+    const skipReason = await getBatchChildSkipReason(batchChild.batchId);
+    if (skipReason) {
+      await releaseClaim(item);
+      await completeBatchChild(batchChild, "skipped", { error: skipReason });
+      logger.info(
+        `Skipped ${QUEUE} submission ${submission.id}: ${skipReason}`
+      );
+      return "done";
+    }
+  }
+
+  const attempts = await client.hincrby(ATTEMPTS_KEY, itemId(item), 1);
+  let error = "Submission processing failed";
+  let screening: AiScreening | null = null;
+  // ITEM_TIMEOUT_MS is always positive, so this can't throw
+  const timeout = AbortSignal.timeout(ITEM_TIMEOUT_MS);
+
+  try {
+    screening = await runWithJobContext(
+      {
+        jobId: submission.jobId,
+        userId: submission.userId,
+        dealId: submission.id,
+        screenerId: submission.screenerId,
+      },
+      () =>
+        processSubmission(submission, AbortSignal.any([timeout, abandoned]))
+    );
+  } catch (processingError) {
+    error = timeout.aborted
+      ? `Timed out after ${ITEM_TIMEOUT_MS / 1000}s`
+      : processingError instanceof Error
+        ? processingError.message
+        : String(processingError);
+  }
+
+  // Shutdown already put the item back on the queue
+  if (abandoned.aborted) return "retrying";
+
+  if (screening) {
+    await client.hdel(ATTEMPTS_KEY, itemId(item));
+    await releaseClaim(item);
+    await client.publish(
+      DONE_CHANNEL,
+      JSON.stringify({ id: submission.id, status: "done" })
+    );
+    if (batchChild) await completeBatchChild(batchChild, "done", { screening });
+    logger.info(`Processed ${QUEUE} submission ${submission.id}`);
+    return "done";
+  }
+
+  if (attempts >= MAX_ATTEMPTS) {
+    await moveToDeadLetter(item, error, attempts);
+    await client.publish(
+      DONE_CHANNEL,
+      JSON.stringify({ id: submission.id, status: "failed", error })
+    );
+    if (batchChild) await completeBatchChild(batchChild, "failed", { error });
+    return "dead";
+  }
+
+  const delay = Math.min(
+    BACKOFF_BASE_MS * 2 ** (attempts - 1),
+    BACKOFF_MAX_MS
+  );
+  await client
+    .multi()
+    .zadd(DELAYED_KEY, Date.now() + delay, item)
+    .zrem(CLAIMED_KEY, item)
+    .exec();
+  logger.warn(
+    `Submission ${submission.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}), retrying in ${delay}ms`
+  );
+  return "retrying";
+}
+
+/**
+ * Moves retries whose backoff has elapsed back onto the queue and requeues
+ * items whose worker stopped before finishing them
+ */
+async function requeueDueItems() {
+  const client = getRedisClient();
+  const now = Date.now();
+
+  const dueItems = await client.zrangebyscore(
+    DELAYED_KEY,
+    "-inf",
+    now,
+    "LIMIT",
+    0,
+    100
+  );
+  for (const item of dueItems) {
+    // Only the worker that wins the ZREM requeues the item, in the same
+    // script so a crash can't drop it between the two
+    await client.eval(REQUEUE_DELAYED_SCRIPT, 2, DELAYED_KEY, QUEUE, item);
+  }
+
+  const staleItems = await client.zrangebyscore(
+    CLAIMED_KEY,
+    "-inf",
+    now - VISIBILITY_TIMEOUT_MS,
+    "LIMIT",
+    0,
+    100
+  );
+  for (const item of staleItems) {
+    const requeued = await client.eval(
+      REQUEUE_STALE_SCRIPT,
+      2,
+      CLAIMED_KEY,
+      QUEUE,
+      item
+    );
+    if (requeued) logger.warn(`Requeued stale ${QUEUE} item`);
+  }
+}
+
+/**
+ * Claims the next queued item, giving items pushed without a queueItemId one
+ * so they can't share attempts or claims with identical submissions
+ * @returns The claimed item, or null when the queue is empty
+ */
+async function claimNextItem() {
+  const client = getRedisClient();
+  const item = (await client.eval(
+    CLAIM_SCRIPT,
+    2,
+    QUEUE,
+    CLAIMED_KEY,
+    Date.now()
+  )) as string | null;
+  if (!item) return null;
+
+  const submission = parseSubmission(item);
+  if (!submission || submission.queueItemId) return item;
+
+  const identified = JSON.stringify({
+    ...submission,
+    queueItemId: randomUUID(),
+  });
+  await client
+    .multi()
+    .zrem(CLAIMED_KEY, item)
+    .zadd(CLAIMED_KEY, Date.now(), identified)
+    .exec();
+  return identified;
+}
+
+/**
+ * Processes up to `maxItems` queued submissions without blocking
+ * @returns How many items ended up done, retrying or dead-lettered
+ */
+export async function processQueueBatch(maxItems: number) {
+  await requeueDueItems();
+
+  const counts: Record<ProcessOutcome, number> = {
+    done: 0,
+    retrying: 0,
+    dead: 0,
+  };
+
+  for (let i = 0; i < maxItems && !isDraining(); i++) {
+    const item = await claimNextItem();
+    if (!item) break;
+    counts[await processTrackedItem(item)]++;
+  }
+
+  return counts;
+}
+
+let running = false;
+let loopFinished: Promise<void> | null = null;
+
+async function runWorkerLoop() {
+  logger.info(`${QUEUE} worker started`);
+
+  while (running) {
+    try {
+      await requeueDueItems();
+      const item = await claimNextItem();
+      if (!item) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        continue;
+      }
+      await processTrackedItem(item);
+    } catch (error) {
+      if (!running) break;
+      logger.error(`${QUEUE} worker error`, { error });
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+
+  logger.info(`${QUEUE} worker stopped`);
+}
+
+/**
+ * Starts consuming the queue in the background
+ */
+export function startQueueWorker() {
+  if (running) return;
+  if (!redis) {
+    logger.warn(`Redis not configured, ${QUEUE} worker not started`);
+    return;
+  }
+
+  running = true;
+  loopFinished = runWorkerLoop();
+}
+
+/**
+ * Stops the background worker after the item in progress has been handled
+ */
+export async function stopQueueWorker() {
+  if (!running) return;
+  running = false;
+
+  await loopFinished;
+  loopFinished = null;
+}
+
+/**
+ * Returns how many items are queued, claimed, delayed and dead-lettered
+ */
+export async function getQueueStats() {
+  const client = getRedisClient();
+  const [queued, processing, delayed, dead] = await Promise.all([
+    client.llen(QUEUE),
+    client.zcard(CLAIMED_KEY),
+    client.zcard(DELAYED_KEY),
+    client.llen(DEAD_LETTER_KEY),
+  ]);
+  return { queued, processing, delayed, dead };
+}
+
+/**
+ * Lists dead-lettered items, newest first
+ */
+export async function listDeadLetters(
+  offset: number,
+  limit: number
+): Promise<DeadLetter[]> {
+  const client = getRedisClient();
+  const entries = await client.lrange(
+    DEAD_LETTER_KEY,
+    offset,
+    offset + limit - 1
+  );
+  return entries.map((entry) => JSON.parse(entry) as DeadLetter);
+}
+
+/**
+ * Moves dead-lettered items back onto the queue with a fresh retry budget
+ * @param count - How many of the oldest dead letters to replay
+ * @returns The number of items replayed
+ */
+export async function replayDeadLetters(count: number) {
+  const client = getRedisClient();
+  let replayed = 0;
+
+  for (let i = 0; i < count; i++) {
+    const entry = await client.rpop(DEAD_LETTER_KEY);
+    if (!entry) break;
+    const { item } = JSON.parse(entry) as DeadLetter;
+    await client
+      .multi()
+      .hdel(ATTEMPTS_KEY, itemId(item))
+      .lpush(QUEUE, item)
+      .exec();
+    replayed++;
+  }
+
+  logger.info(`Replayed ${replayed} dead-lettered ${QUEUE} items`);
+  return replayed;
+}
+
+type EnqueueScreeningOptions = Pick<Submission, "force" | "batchId" | "jobId">;
+
+/**
+ * Queues a screening of a stored deal against a screener by pushing a
+ * Submission built from both onto the dealListings queue
+ * @param options - Forces new model calls, or makes it a batch child
+ * @returns Whether the submission was queued
+ */
+export async function enqueueDealScreening(
+  dealId: string,
+  screenerId: string,
+  options: EnqueueScreeningOptions = {}
+) {
+  const client = getRedisClient();
+  const [deal, screener, screenerVersion] = await Promise.all([
+    prismaDB.deal.findFirst({ where: { id: dealId } }),
+    prismaDB.screener.findFirst({ where: { id: screenerId } }),
+    getCurrentScreenerVersion(screenerId),
+  ]);
+
+  if (!deal || !screener || !screenerVersion) {
+    logger.error(
+      `Cannot queue screening, ${deal ? "screener" : "deal"} not found`,
+      { dealId, screenerId }
+    );
+    return false;
+  }
+
+  const submission: Submission = {
+    id: deal.id,
+    brokerage: deal.brokerage,
+    firstName: deal.firstName ?? "",
+    lastName: deal.lastName ?? "",
+    tags: deal.tags,
+    email: deal.email ?? "",
+    linkedinUrl: deal.linkedinUrl ?? "",
+    workPhone: deal.workPhone ?? "",
+    dealCaption: deal.dealCaption,
+    revenue: deal.revenue,
+    ebitda: deal.ebitda,
+    title: deal.title ?? "",
+    dealTeaser: deal.dealTeaser,
+    grossRevenue: deal.grossRevenue,
+    askingPrice: deal.askingPrice,
+    ebitdaMargin: deal.ebitdaMargin,
+    industry: deal.industry,
+    dealType: deal.dealType,
+    sourceWebsite: deal.sourceWebsite,
+    companyLocation: deal.companyLocation ?? "",
+    createdAt: deal.createdAt.toISOString(),
+    updatedAt: deal.updatedAt.toISOString(),
+    bitrixLink: deal.bitrixLink,
+    status: deal.status,
+    isReviewed: deal.isReviewed,
+    isPublished: deal.isPublished,
+    seen: deal.seen,
+    bitrixId: deal.bitrixId,
+    bitrixCreatedAt: deal.bitrixCreatedAt?.toISOString() ?? null,
+    userId: deal.userId ?? "",
+    screenerId: screener.id,
+    screenerContent: screenerVersion.content,
+    screenerName: screener.name,
+    screenerVersionId: screenerVersion.id,
+    ...options,
+    queueItemId: randomUUID(),
+  };
+
+  await client.lpush(QUEUE, JSON.stringify(submission));
+  logger.info(`Queued screening of deal ${dealId} with screener ${screenerId}`);
+  return true;
+}
+
+/**
+ * Queues every deal screened with the screener for a new screening
+ * @returns How many deals were queued
+ */
+export async function enqueueScreenerRescreening(screenerId: string) {
+  if (!redis) {
+    logger.warn("Redis not configured, skipping re-screening");
+    return 0;
+  }
+
+  const screenings = await prismaDB.aiScreening.findMany({
+    where: { screenerId },
+    distinct: ["dealId"],
+    select: { dealId: true },
+  });
+
+  let queued = 0;
+  for (const { dealId } of screenings) {
+    try {
+      if (await enqueueDealScreening(dealId, screenerId)) queued++;
+    } catch (error) {
+      logger.error(`Error queueing re-screening of deal ${dealId}`, { error });
+    }
+  }
+
+  logger.info(
+    `Queued ${queued}/${screenings.length} deals for re-screening with screener ${screenerId}`
+  );
+  return queued;
+}
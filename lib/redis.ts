@@ -1,39 +1,50 @@
 import Redis from "ioredis";
+import { logger } from "./observability/logger";
+import { redisErrors } from "./observability/metrics";
 
 const redisUrl = process.env.REDIS_URL;
 
 let redis: Redis | null = null;
 
+/**
+ * Logs and counts the errors of a connection, e.g. one made with duplicate()
+ */
+export function trackRedisErrors(client: Redis, name: string) {
+  client.on("error", (err) => {
+    redisErrors.inc();
+    logger.error(`Redis ${name} client error`, { error: err });
+  });
+}
+
 if (!redisUrl) {
-  console.warn(
+  logger.warn(
     "REDIS_URL environment variable is not set. Redis-dependent routes will be disabled."
   );
 } else {
   redis = new Redis(redisUrl);
 
-  redis.on("error", (err) => {
-    console.error("Redis Client Error", err);
-  });
+  trackRedisErrors(redis, "main");
 
   redis.on("connect", () => {
-    console.log("Redis client connected");
+    logger.info("Redis client connected");
   });
 
   redis.on("ready", () => {
-    console.log("Redis client ready");
+    logger.info("Redis client ready");
   });
 
   redis.on("close", () => {
-    console.log("Redis client connection closed");
+    logger.info("Redis client connection closed");
   });
 
   redis.on("reconnecting", () => {
-    console.log("Redis client reconnecting...");
+    logger.info("Redis client reconnecting...");
   });
 
   // Connect to Redis
   redis.connect().catch((err) => {
-    console.error("Failed to connect to Redis:", err);
+    redisErrors.inc();
+    logger.error("Failed to connect to Redis", { error: err });
   });
 }
 
@@ -0,0 +1,247 @@
+import { createHash } from "crypto";
+import { RetrievalSourceType } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { logger } from "../observability/logger";
+import { chunkText } from "../chunking";
+import { cosineSimilarity, getEmbeddingBackend } from "../ai/embeddings";
+
+// Passages are small so a match points at one criterion or paragraph
+const PASSAGE_TOKENS = Number(process.env.RETRIEVAL_PASSAGE_TOKENS) || 300;
+// Vectors compared per search; similarity is computed in process, so the
+// candidates are narrowed by source, deal, screener and industry first
+const MAX_CANDIDATES = Number(process.env.RETRIEVAL_MAX_CANDIDATES) || 5000;
+
+type IndexSource = {
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  text: string;
+  dealId?: string | null;
+  screenerId?: string | null;
+  industry?: string | null;
+};
+
+export type RetrievedPassage = {
+  sourceType: RetrievalSourceType;
+  sourceId: string;
+  dealId: string | null;
+  screenerId: string | null;
+  text: string;
+  similarity: number;
+};
+
+/**
+ * Embeds a source in passages and replaces its previous passages. Sources
+ * whose text and embedding backend are unchanged are skipped.
+ * @returns How many passages were written
+ */
+export async function indexSource(source: IndexSource) {
+  const backend = getEmbeddingBackend();
+  const contentHash = createHash("sha256").update(source.text).digest("hex");
+  const where = { sourceType: source.sourceType, sourceId: source.sourceId };
+
+  const existing = await prismaDB.retrievalChunk.findFirst({
+    where,
+    select: { contentHash: true, embeddingModel: true, industry: true },
+  });
+  if (
+    existing?.contentHash === contentHash &&
+    existing.embeddingModel === backend.id &&
+    existing.industry === (source.industry ?? null)
+  ) {
+    return 0;
+  }
+
+  const passages = chunkText(source.text, {
+    modelId: "text-embedding-3-small",
+    maxTokens: PASSAGE_TOKENS,
+    overlapTokens: Math.floor(PASSAGE_TOKENS * 0.1),
+  });
+  const embeddings = await backend.embed(passages.map((p) => p.text));
+
+  await prismaDB.$transaction([
+    prismaDB.retrievalChunk.deleteMany({ where }),
+    prismaDB.retrievalChunk.createMany({
+      data: passages.map((passage, i) => ({
+        ...where,
+        chunkIndex: passage.index,
+        dealId: source.dealId ?? null,
+        screenerId: source.screenerId ?? null,
+        industry: source.industry ?? null,
+        text: passage.text,
+        embedding: embeddings[i]!,
+        embeddingModel: backend.id,
+        contentHash,
+      })),
+    }),
+  ]);
+
+  logger.info(
+    `Indexed ${passages.length} passages of ${source.sourceType} ${source.sourceId}`
+  );
+  return passages.length;
+}
+
+/**
+ * Indexes a source without failing the caller, e.g. an upload or a screening
+ */
+export async function indexSourceSafely(source: IndexSource) {
+  try {
+    await indexSource(source);
+  } catch (error) {
+    logger.error(
+      `Failed to index ${source.sourceType} ${source.sourceId}`,
+      { error }
+    );
+  }
+}
+
+export const indexScreener = (screener: { id: string; content: string }) =>
+  indexSourceSafely({
+    sourceType: RetrievalSourceType.SCREENER,
+    sourceId: screener.id,
+    screenerId: screener.id,
+    text: screener.content,
+  });
+
+export const indexDealDocument = (document: {
+  id: string;
+  dealId: string;
+  title: string;
+  extractedText: string | null;
+}) =>
+  document.extractedText
+    ? indexSourceSafely({
+        sourceType: RetrievalSourceType.DEAL_DOCUMENT,
+        sourceId: document.id,
+        dealId: document.dealId,
+        text: `${document.title}\n\n${document.extractedText}`,
+      })
+    : Promise.resolve();
+
+export const indexScreening = (screening: {
+  id: string;
+  dealId: string;
+  screenerId: string | null;
+  industry: string;
+  title: string;
+  explanation: string;
+}) =>
+  indexSourceSafely({
+    sourceType: RetrievalSourceType.SCREENING,
+    sourceId: screening.id,
+    dealId: screening.dealId,
+    screenerId: screening.screenerId,
+    industry: screening.industry,
+    text: `${screening.title}\n\n${screening.explanation}`,
+  });
+
+/**
+ * Finds the passages most similar to the query
+ * @param query - Free text, e.g. a deal description
+ * @param options - Which sources to search and how many passages to return
+ */
+export async function searchIndex(
+  query: string,
+  options: {
+    sourceTypes?: RetrievalSourceType[];
+    dealId?: string;
+    excludeDealId?: string;
+    screenerId?: string;
+    industry?: string;
+    limit?: number;
+  } = {}
+): Promise<RetrievedPassage[]> {
+  const backend = getEmbeddingBackend();
+  const [queryEmbedding] = await backend.embed([query]);
+  if (!queryEmbedding) return [];
+
+  const dealFilter: Prisma.StringNullableFilter = {};
+  if (options.dealId) dealFilter.equals = options.dealId;
+  if (options.excludeDealId) dealFilter.not = options.excludeDealId;
+
+  const candidates = await prismaDB.retrievalChunk.findMany({
+    where: {
+      embeddingModel: backend.id,
+      sourceType: options.sourceTypes ? { in: options.sourceTypes } : undefined,
+      screenerId: options.screenerId,
+      industry: options.industry,
+      dealId: Object.keys(dealFilter).length > 0 ? dealFilter : undefined,
+    },
+    select: {
+      sourceType: true,
+      sourceId: true,
+      dealId: true,
+      screenerId: true,
+      text: true,
+      embedding: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+  if (candidates.length === MAX_CANDIDATES) {
+    logger.warn(
+      `Retrieval search hit the ${MAX_CANDIDATES} candidate cap, older passages were not compared`,
+      { sourceTypes: options.sourceTypes, industry: options.industry }
+    );
+  }
+
+  return candidates
+    .map(({ embedding, ...passage }) => ({
+      ...passage,
+      similarity: cosineSimilarity(queryEmbedding, embedding),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit ?? 10);
+}
+
+/**
+ * Indexes every screener, deal document and screening, e.g. after switching
+ * embedding backends. Unchanged sources are skipped.
+ * @returns How many sources of each type were visited
+ */
+export async function reindexAll(sourceTypes?: RetrievalSourceType[]) {
+  const include = (type: RetrievalSourceType) =>
+    !sourceTypes || sourceTypes.includes(type);
+  const counts = { screeners: 0, documents: 0, screenings: 0 };
+
+  if (include(RetrievalSourceType.SCREENER)) {
+    const screeners = await prismaDB.screener.findMany({
+      select: { id: true, content: true },
+    });
+    for (const screener of screeners) {
+      await indexScreener(screener);
+      counts.screeners++;
+    }
+  }
+
+  if (include(RetrievalSourceType.DEAL_DOCUMENT)) {
+    const documents = await prismaDB.dealDocument.findMany({
+      where: { extractedText: { not: null } },
+      select: { id: true, dealId: true, title: true, extractedText: true },
+    });
+    for (const document of documents) {
+      await indexDealDocument(document);
+      counts.documents++;
+    }
+  }
+
+  if (include(RetrievalSourceType.SCREENING)) {
+    const screenings = await prismaDB.aiScreening.findMany({
+      select: {
+        id: true,
+        dealId: true,
+        screenerId: true,
+        title: true,
+        explanation: true,
+        deal: { select: { industry: true } },
+      },
+    });
+    for (const { deal, ...screening } of screenings) {
+      await indexScreening({ ...screening, industry: deal.industry });
+      counts.screenings++;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const batchQuerySchema = z.object({
+  top: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export type batchQueryType = z.infer<typeof batchQuerySchema>;
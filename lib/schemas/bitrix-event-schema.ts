@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const bitrixEventSchema = z.object({
+  event: z.string().transform((event) => event.toUpperCase()),
+  data: z.object({
+    FIELDS: z.object({
+      ID: z.coerce.string(),
+    }),
+  }),
+  auth: z.object({
+    application_token: z.string(),
+    domain: z.string().optional(),
+  }),
+});
+
+export type bitrixEventType = z.infer<typeof bitrixEventSchema>;
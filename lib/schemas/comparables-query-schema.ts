@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const comparablesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  screenerId: z.string().optional(),
+  screenedOnly: z.stringbool().default(false),
+  text: z.stringbool().default(false),
+});
+
+export type comparablesQueryType = z.infer<typeof comparablesQuerySchema>;
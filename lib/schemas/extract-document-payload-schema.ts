@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { jobEnvelopeSchema } from "./job-envelope-schema";
+
+export const extractDocumentPayloadSchema = jobEnvelopeSchema.extend({
+  documentId: z.string(),
+});
+
+export type extractDocumentPayloadType = z.infer<
+  typeof extractDocumentPayloadSchema
+>;
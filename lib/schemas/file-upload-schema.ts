@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { DealDocumentCategory } from "@prisma/client";
+
+export const fileUploadSchema = z.object({
+  dealId: z.string().min(1),
+  category: z.enum(DealDocumentCategory).default(DealDocumentCategory.OTHER),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  documentUrl: z.string().optional(),
+});
+
+export type fileUploadType = z.infer<typeof fileUploadSchema>;
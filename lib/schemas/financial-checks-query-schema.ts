@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const financialChecksQuerySchema = z.object({
+  screenerId: z.string().optional(),
+});
+
+export type financialChecksQueryType = z.infer<
+  typeof financialChecksQuerySchema
+>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+export const financialFlagCodes = [
+  "MISSING_REVENUE",
+  "MISSING_EBITDA",
+  "MISSING_ASKING_PRICE",
+  "MISSING_GROSS_REVENUE",
+  "ZERO_ASKING_PRICE",
+  "NEGATIVE_EBITDA",
+  "MARGIN_ABOVE_100",
+  "MARGIN_MISMATCH",
+  "EBITDA_EXCEEDS_REVENUE",
+  "GROSS_REVENUE_BELOW_REVENUE",
+  "BELOW_MIN_REVENUE",
+  "BELOW_MIN_EBITDA",
+  "BELOW_MIN_MARGIN",
+  "ABOVE_MAX_ASKING_PRICE",
+  "ABOVE_MAX_EV_EBITDA",
+  "ABOVE_MAX_EV_REVENUE",
+] as const;
+
+export type FinancialFlagCode = (typeof financialFlagCodes)[number];
+
+export const financialRulesSchema = z.object({
+  minRevenue: z.number().optional(),
+  minEbitda: z.number().optional(),
+  // In percent, like Deal.ebitdaMargin
+  minEbitdaMargin: z.number().optional(),
+  maxAskingPrice: z.number().positive().optional(),
+  maxEvToEbitda: z.number().positive().optional(),
+  maxEvToRevenue: z.number().positive().optional(),
+  // Percentage points the reported margin may differ from EBITDA / revenue
+  marginTolerance: z.number().min(0).default(2),
+  // Flags that disqualify a deal without calling the model
+  disqualifyOn: z.array(z.enum(financialFlagCodes)).default([]),
+});
+
+export type financialRulesType = z.infer<typeof financialRulesSchema>;
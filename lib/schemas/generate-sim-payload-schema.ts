@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { jobEnvelopeSchema } from "./job-envelope-schema";
+
+export const generateSimPayloadSchema = jobEnvelopeSchema.extend({
+  dealId: z.string(),
+  // A SIM row created by the main app to fill in
+  simId: z.string().optional(),
+});
+
+export type generateSimPayloadType = z.infer<typeof generateSimPayloadSchema>;
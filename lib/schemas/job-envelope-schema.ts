@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+// Fields every Pub/Sub job message carries, whatever its type
+export const jobEnvelopeSchema = z.object({
+  jobId: z.string(),
+  userId: z.string(),
+  jobType: z.string(),
+});
+
+export type jobEnvelopeType = z.infer<typeof jobEnvelopeSchema>;
@@ -0,0 +1,11 @@
+import { z } from "zod";
+import { jobStatuses } from "../jobs/job-store";
+
+export const listJobsQuerySchema = z.object({
+  userId: z.string().optional(),
+  status: z.enum(jobStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type listJobsQueryType = z.infer<typeof listJobsQuerySchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const processQueueSchema = z.object({
+  maxItems: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export const deadLetterQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const replayDeadLettersSchema = z.object({
+  count: z.coerce.number().int().min(1).max(1000).default(1),
+});
+
+export type processQueueType = z.infer<typeof processQueueSchema>;
+export type deadLetterQueryType = z.infer<typeof deadLetterQuerySchema>;
+export type replayDeadLettersType = z.infer<typeof replayDeadLettersSchema>;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { jobEnvelopeSchema } from "./job-envelope-schema";
+
+export const rescreenAllPayloadSchema = jobEnvelopeSchema.extend({
+  screenerId: z.string(),
+});
+
+export type rescreenAllPayloadType = z.infer<typeof rescreenAllPayloadSchema>;
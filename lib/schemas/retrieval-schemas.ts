@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { RetrievalSourceType } from "@prisma/client";
+
+export const retrievalSearchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  sourceType: z.enum(RetrievalSourceType).optional(),
+  dealId: z.string().optional(),
+  screenerId: z.string().optional(),
+  industry: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const reindexSchema = z.object({
+  sourceTypes: z.array(z.enum(RetrievalSourceType)).optional(),
+});
+
+export const ragScreeningSchema = z.object({
+  dealId: z.string().min(1),
+  screenerId: z.string().optional(),
+});
+
+export type retrievalSearchQueryType = z.infer<
+  typeof retrievalSearchQuerySchema
+>;
+export type reindexType = z.infer<typeof reindexSchema>;
+export type ragScreeningType = z.infer<typeof ragScreeningSchema>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { DealStatus, DealType } from "@prisma/client";
+import { jobEnvelopeSchema } from "./job-envelope-schema";
+
+// Which deals a screener runs across
+export const batchDealFilterSchema = z.object({
+  industries: z.array(z.string()).optional(),
+  statuses: z.array(z.enum(DealStatus)).optional(),
+  dealTypes: z.array(z.enum(DealType)).optional(),
+  isReviewed: z.boolean().optional(),
+  isPublished: z.boolean().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  minRevenue: z.number().optional(),
+  maxRevenue: z.number().optional(),
+  minEbitda: z.number().optional(),
+  // Skip deals that already have a screening from the screener
+  unscreenedOnly: z.boolean().default(false),
+});
+
+export const screenBatchPayloadSchema = jobEnvelopeSchema
+  .extend({
+    // Many deals against one screener...
+    screenerId: z.string().optional(),
+    filter: batchDealFilterSchema.default({ unscreenedOnly: false }),
+    maxDeals: z.number().int().min(1).max(10000).default(1000),
+    // ...or one deal against every active screener
+    dealId: z.string().optional(),
+    force: z.boolean().optional().default(false),
+    // Stop starting child screenings once the batch has cost this much
+    maxCostUsd: z.number().positive().optional(),
+  })
+  .refine((payload) => !payload.screenerId !== !payload.dealId, {
+    message: "Pass either screenerId or dealId",
+  });
+
+export type batchDealFilterType = z.infer<typeof batchDealFilterSchema>;
+export type screenBatchPayloadType = z.infer<typeof screenBatchPayloadSchema>;
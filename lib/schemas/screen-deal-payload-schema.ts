@@ -1,11 +1,15 @@
 import { z } from "zod";
+import { jobEnvelopeSchema } from "./job-envelope-schema";
 
-export const screenDealPayloadSchema = z.object({
-  jobId: z.string(),
+export const screenDealPayloadSchema = jobEnvelopeSchema.extend({
   dealId: z.string(),
   screenerId: z.string(),
-  userId: z.string(),
-  jobType: z.string(),
+  // Re-run the models even when a cached screening matches
+  force: z.boolean().optional().default(false),
+  // Pin the screening to an earlier screener version
+  screenerVersionId: z.string().optional(),
+  // Show the summary model this many comparable screened deals
+  comparables: z.number().int().min(0).max(20).optional(),
 });
 
 export type screenDealPayloadType = z.infer<typeof screenDealPayloadSchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const screenerUploadSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    fileUrl: z.string().optional(),
+    // What to do when a screener with the same name already exists
+    onConflict: z.enum(["reject", "replace", "version"]).default("reject"),
+    // Queue the deals screened with a replaced screener for re-screening
+    rescreen: z.stringbool().default(false),
+  })
+  // Other policies create a new screener, which has no deals to re-screen
+  .refine((body) => !body.rescreen || body.onConflict === "replace", {
+    message: "rescreen requires onConflict=replace",
+    path: ["rescreen"],
+  });
+
+export type screenerUploadType = z.infer<typeof screenerUploadSchema>;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const screeningDiffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+export type screeningDiffQueryType = z.infer<typeof screeningDiffQuerySchema>;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { usageGroupings } from "../ai/usage";
+
+export const usageQuerySchema = z.object({
+  // Defaults to the start of the current month
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  groupBy: z.enum(usageGroupings).optional(),
+  userId: z.string().optional(),
+  screenerId: z.string().optional(),
+  dealId: z.string().optional(),
+  jobId: z.string().optional(),
+});
+
+export type usageQueryType = z.infer<typeof usageQuerySchema>;
@@ -0,0 +1,132 @@
+import type { AiScreening } from "@prisma/client";
+import prismaDB from "../prisma";
+import { getUserBudgetStatus } from "../ai/usage";
+import {
+  getJob,
+  isFinishedStatus,
+  updateJob,
+  updateJobProgress,
+} from "../jobs/job-store";
+import { isJobCancellationRequested } from "../jobs/cancellation";
+import {
+  finishBatch,
+  getBatch,
+  getBatchSummary,
+  recordBatchChild,
+  stopBatch,
+} from "../jobs/batch-store";
+import type { BatchOutcome } from "../jobs/batch-store";
+import { logger } from "../observability/logger";
+
+type BatchChild = {
+  batchId: string;
+  jobId: string;
+  dealId: string;
+  screenerId: string;
+};
+
+/**
+ * Checks whether the batch was cancelled or used up the user's monthly
+ * budget or its own cost cap
+ * @returns Why the child must be skipped, or null when it may run
+ */
+export async function getBatchChildSkipReason(batchId: string) {
+  const batch = await getBatch(batchId);
+  if (!batch) return "Batch not found";
+  if (batch.stopReason) return batch.stopReason;
+  if (await isJobCancellationRequested(batchId)) return "Cancelled";
+
+  const budget = await getUserBudgetStatus(batch.userId);
+  if (budget.exceeded) {
+    return `Monthly AI budget of $${budget.budgetUsd} used up`;
+  }
+
+  if (batch.maxCostUsd) {
+    const usage = await prismaDB.modelUsage.aggregate({
+      where: { jobId: { startsWith: `${batchId}:` } },
+      _sum: { costUsd: true },
+    });
+    if ((usage._sum.costUsd ?? 0) >= batch.maxCostUsd) {
+      return `Batch cost limit of $${batch.maxCostUsd} reached`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records the outcome of a batch child on its own job and on the batch, and
+ * finishes the batch and its parent job once every child is accounted for
+ */
+export async function completeBatchChild(
+  child: BatchChild,
+  outcome: BatchOutcome,
+  result: { screening?: AiScreening; error?: string } = {}
+) {
+  const { batchId, jobId, dealId, screenerId } = child;
+
+  // A child queued twice, e.g. by a resumed fan-out, is only counted once
+  const job = await getJob(jobId);
+  if (job && isFinishedStatus(job.status)) return;
+
+  if (outcome === "done") {
+    await updateJob(jobId, {
+      status: "done",
+      aiScreeningId: result.screening?.id,
+    });
+  } else {
+    await updateJob(jobId, {
+      status: outcome === "skipped" ? "cancelled" : "failed",
+      error: result.error,
+    });
+  }
+
+  if (outcome === "skipped" && result.error) {
+    await stopBatch(batchId, result.error);
+  }
+
+  const score = result.screening?.score;
+  const counts = await recordBatchChild(
+    batchId,
+    outcome,
+    result.screening && score !== null && score !== undefined
+      ? { dealId, screenerId, aiScreeningId: result.screening.id, score }
+      : null
+  );
+  await updateJobProgress(batchId, {
+    stage: "screening_batch",
+    completed: counts.done,
+    failed: counts.failed,
+    skipped: counts.skipped,
+    total: counts.total,
+  });
+
+  if (counts.done + counts.failed + counts.skipped === counts.total) {
+    await finishScreeningBatch(batchId);
+  }
+}
+
+/**
+ * Marks a batch whose children have all finished, and its parent job, as
+ * done, or as cancelled when cancellation was requested
+ */
+export async function finishScreeningBatch(batchId: string) {
+  const cancelled = await isJobCancellationRequested(batchId);
+  const status = cancelled ? "cancelled" : "done";
+
+  await finishBatch(batchId, status);
+  await updateJob(batchId, {
+    status,
+    ...(cancelled ? { error: "Cancelled" } : {}),
+  });
+
+  const summary = await getBatchSummary(batchId, 10);
+  logger.info(`Finished screening batch ${batchId}`, {
+    status,
+    done: summary?.done,
+    failed: summary?.failed,
+    skipped: summary?.skipped,
+    stopReason: summary?.stopReason,
+    topScreenings: summary?.topScreenings,
+  });
+}
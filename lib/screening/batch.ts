@@ -0,0 +1,161 @@
+import type { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { updateJob } from "../jobs/job-store";
+import {
+  createBatch,
+  finishBatch,
+  getBatchPair,
+  recordBatchChildQueued,
+  stopBatch,
+} from "../jobs/batch-store";
+import type { BatchPair } from "../jobs/batch-store";
+import type { JobHandlerContext, JobHandlerResult } from "../jobs/job-handler";
+import type {
+  batchDealFilterType,
+  screenBatchPayloadType,
+} from "../schemas/screen-batch-payload-schema";
+import { enqueueDealScreening } from "../queue/deal-listings-queue";
+import { completeBatchChild, finishScreeningBatch } from "./batch-children";
+import { logger } from "../observability/logger";
+
+function toDealWhere(
+  screenerId: string,
+  filter: batchDealFilterType
+): Prisma.DealWhereInput {
+  return {
+    ...(filter.industries ? { industry: { in: filter.industries } } : {}),
+    ...(filter.statuses ? { status: { in: filter.statuses } } : {}),
+    ...(filter.dealTypes ? { dealType: { in: filter.dealTypes } } : {}),
+    ...(filter.isReviewed !== undefined
+      ? { isReviewed: filter.isReviewed }
+      : {}),
+    ...(filter.isPublished !== undefined
+      ? { isPublished: filter.isPublished }
+      : {}),
+    createdAt: { gte: filter.createdFrom, lte: filter.createdTo },
+    revenue: { gte: filter.minRevenue, lte: filter.maxRevenue },
+    ebitda: { gte: filter.minEbitda },
+    ...(filter.unscreenedOnly
+      ? { AiScreening: { none: { screenerId } } }
+      : {}),
+  };
+}
+
+/**
+ * Lists the deal/screener pairs a batch screens
+ * @returns The pairs, or null when the screener or deal doesn't exist
+ */
+async function getBatchPairs(
+  payload: screenBatchPayloadType
+): Promise<BatchPair[] | null> {
+  if (payload.screenerId) {
+    const { screenerId } = payload;
+    const screener = await prismaDB.screener.findFirst({
+      where: { id: screenerId },
+      select: { id: true },
+    });
+    if (!screener) return null;
+
+    const deals = await prismaDB.deal.findMany({
+      where: toDealWhere(screenerId, payload.filter),
+      select: { id: true },
+      orderBy: { createdAt: "desc" },
+      take: payload.maxDeals,
+    });
+    return deals.map((deal) => ({ dealId: deal.id, screenerId }));
+  }
+
+  const dealId = payload.dealId!;
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: dealId },
+    select: { id: true },
+  });
+  if (!deal) return null;
+
+  const screeners = await prismaDB.screener.findMany({
+    where: { isActive: true },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return screeners.map((screener) => ({ dealId, screenerId: screener.id }));
+}
+
+/**
+ * Screens many deals against one screener, or one deal against every active
+ * screener. Each pair is pushed onto the dealListings queue as a child job
+ * `<batchId>:<n>` with its own job record, and the job returns once they are
+ * all queued. The queue counts finished children against the batch, whose id
+ * is the parent job id, and finishes the batch and the parent job with the
+ * last one; see ./batch-children.
+ */
+export async function runScreeningBatch(
+  payload: screenBatchPayloadType,
+  { jobId: batchId }: JobHandlerContext
+): Promise<JobHandlerResult> {
+  const pairs = await getBatchPairs(payload);
+  if (!pairs) {
+    return {
+      success: false,
+      message: payload.screenerId ? "Screener not found" : "Deal not found",
+    };
+  }
+
+  // A redelivered message resumes the fan-out where it stopped, with the
+  // pairs stored the first time
+  const batch = await createBatch(
+    {
+      batchId,
+      mode: payload.screenerId ? "screener" : "deal",
+      userId: payload.userId,
+      screenerId: payload.screenerId,
+      dealId: payload.dealId,
+      maxCostUsd: payload.maxCostUsd,
+    },
+    pairs
+  );
+  logger.info(
+    `Queueing screening batch ${batchId} of ${batch.total} screenings`,
+    { queued: batch.queued }
+  );
+
+  if (batch.total === 0) {
+    await finishScreeningBatch(batchId);
+    return { success: true, detached: true };
+  }
+
+  for (let index = batch.queued; index < batch.total; index++) {
+    const pair = await getBatchPair(batchId, index);
+    // The stored pairs expired or were removed, so the rest can't be queued;
+    // children already queued are skipped and the batch ends as failed
+    if (!pair) {
+      const error = `Screening batch ${batchId} has no pair ${index}`;
+      logger.error(error);
+      await stopBatch(batchId, error);
+      await finishBatch(batchId, "failed");
+      return { success: false, message: error };
+    }
+    const child = { batchId, jobId: `${batchId}:${index}`, ...pair };
+
+    await updateJob(child.jobId, {
+      status: "processing",
+      jobType: "screen-deal",
+      userId: payload.userId,
+      batchId,
+      dealId: child.dealId,
+      screenerId: child.screenerId,
+    });
+    const queued = await enqueueDealScreening(child.dealId, child.screenerId, {
+      force: payload.force,
+      batchId,
+      jobId: child.jobId,
+    });
+    await recordBatchChildQueued(batchId);
+    if (!queued) {
+      await completeBatchChild(child, "failed", {
+        error: "Deal or screener not found",
+      });
+    }
+  }
+
+  return { success: true, detached: true };
+}
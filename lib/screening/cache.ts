@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import prismaDB from "../prisma";
+import redis from "../redis";
+import { getModelConfigs } from "../ai/model-registry";
+import type { ModelTask } from "../ai/model-registry";
+import { logger } from "../observability/logger";
+
+// Bump whenever a screening prompt or schema changes so stale results miss
+export const SCREENING_PROMPT_VERSION = "3";
+
+const CHUNK_CACHE_PREFIX = "screening:cache:chunk";
+const CHUNK_CACHE_TTL_SECONDS =
+  Number(process.env.SCREENING_CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60;
+
+/**
+ * Serializes a value with sorted keys and collapsed whitespace, so
+ * formatting-only differences produce the same hash
+ */
+function normalize(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") {
+    return JSON.stringify(value.replace(/\s+/g, " ").trim());
+  }
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(normalize).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${normalize(entry)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hashes the inputs of a screening together with the prompt version and the
+ * models of the tasks involved
+ * @param tasks - The model tasks whose output the cached value depends on
+ * @param inputs - The deal fields, screener content, chunk text...
+ */
+export function getScreeningCacheKey(
+  tasks: ModelTask[],
+  ...inputs: unknown[]
+) {
+  const models = getModelConfigs(tasks);
+  return createHash("sha256")
+    .update(normalize([SCREENING_PROMPT_VERSION, models, ...inputs]))
+    .digest("hex");
+}
+
+/**
+ * Reads a cached chunk evaluation. Cache errors count as a miss.
+ */
+export async function getCachedChunk<T>(cacheKey: string): Promise<T | null> {
+  if (!redis) return null;
+  try {
+    const cached = await redis.get(`${CHUNK_CACHE_PREFIX}:${cacheKey}`);
+    return cached ? (JSON.parse(cached) as T) : null;
+  } catch (error) {
+    logger.error("Error reading chunk cache", { error });
+    return null;
+  }
+}
+
+/**
+ * Stores a chunk evaluation. Cache errors are logged and ignored.
+ */
+export async function setCachedChunk(cacheKey: string, value: unknown) {
+  if (!redis) return;
+  try {
+    await redis.set(
+      `${CHUNK_CACHE_PREFIX}:${cacheKey}`,
+      JSON.stringify(value),
+      "EX",
+      CHUNK_CACHE_TTL_SECONDS
+    );
+  } catch (error) {
+    logger.error("Error writing chunk cache", { error });
+  }
+}
+
+/**
+ * Finds a screening produced from the same inputs. When it belongs to another
+ * deal or screener version, e.g. a duplicate listing, it is cloned onto this one.
+ * Clones start without `notifiedAt`, as they haven't been pushed or indexed.
+ * @returns The screening and whether it was reused as is, or null on a miss
+ */
+export async function findCachedScreening(
+  cacheKey: string,
+  target: { dealId: string; screenerId: string; screenerVersionId?: string }
+) {
+  const sameTarget = await prismaDB.aiScreening.findFirst({
+    where: { cacheKey, ...target },
+    orderBy: { createdAt: "desc" },
+  });
+  if (sameTarget) return { screening: sameTarget, reused: true };
+
+  const existing = await prismaDB.aiScreening.findFirst({
+    where: { cacheKey },
+    include: { ScreeningCriterionResult: { orderBy: { position: "asc" } } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!existing) return null;
+
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    notifiedAt: _notifiedAt,
+    ScreeningCriterionResult: criterionResults,
+    models,
+    financialChecks,
+    ...fields
+  } = existing;
+
+  const clone = await prismaDB.aiScreening.create({
+    data: {
+      ...fields,
+      ...target,
+      models: models ?? undefined,
+      financialChecks: financialChecks ?? undefined,
+      ScreeningCriterionResult: {
+        create: criterionResults.map(
+          ({
+            id: _resultId,
+            aiScreeningId: _screeningId,
+            createdAt: _resultCreatedAt,
+            ...result
+          }) => result
+        ),
+      },
+    },
+  });
+
+  logger.info(`Cloned cached screening ${existing.id} as ${clone.id}`);
+  return { screening: clone, reused: false };
+}
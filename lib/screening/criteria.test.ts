@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import type { CriterionVerdict } from "@prisma/client";
+import {
+  computeWeightedScore,
+  dedupeCriteria,
+  sentimentFromScore,
+} from "./criteria";
+import type { CriterionResult } from "./criteria";
+
+const result = (verdict: CriterionVerdict, weight = 1): CriterionResult => ({
+  criterion: `${verdict} criterion weighing ${weight}`,
+  weight,
+  verdict,
+  evidence: null,
+  reasoning: null,
+});
+
+describe("computeWeightedScore", () => {
+  test("scores passes as 1, unknowns as 0.5 and fails as 0", () => {
+    expect(computeWeightedScore([result("PASS")])).toBe(10);
+    expect(computeWeightedScore([result("UNKNOWN")])).toBe(5);
+    expect(computeWeightedScore([result("FAIL")])).toBe(0);
+  });
+
+  test("weighs each verdict by its criterion", () => {
+    expect(computeWeightedScore([result("PASS", 3), result("FAIL", 1)])).toBe(
+      8
+    );
+    expect(computeWeightedScore([result("PASS", 1), result("FAIL", 3)])).toBe(
+      3
+    );
+  });
+
+  test("returns null without any weight to score", () => {
+    expect(computeWeightedScore([])).toBeNull();
+    expect(computeWeightedScore([result("PASS", 0)])).toBeNull();
+  });
+});
+
+describe("sentimentFromScore", () => {
+  test("maps the score onto a sentiment", () => {
+    expect(sentimentFromScore(7)).toBe("POSITIVE");
+    expect(sentimentFromScore(5)).toBe("NEUTRAL");
+    expect(sentimentFromScore(4)).toBe("NEGATIVE");
+    expect(sentimentFromScore(null)).toBe("NEUTRAL");
+  });
+});
+
+describe("dedupeCriteria", () => {
+  test("keeps the heaviest of criteria that differ only in formatting", () => {
+    const criteria = dedupeCriteria([
+      { criterion: "EBITDA above $1M", weight: 2 },
+      { criterion: "ebitda above $1m.", weight: 3 },
+      { criterion: "Located in Texas", weight: 1 },
+    ]);
+    expect(criteria).toEqual([
+      { criterion: "ebitda above $1m.", weight: 3 },
+      { criterion: "Located in Texas", weight: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { CriterionVerdict, Sentiment } from "@prisma/client";
+import { getModel } from "../ai/model-registry";
+import { runModelCall } from "../ai/model-calls";
+
+// How many criteria are evaluated against the deal in one model call
+const CRITERIA_PER_EVALUATION = 10;
+
+// Contribution of each verdict to the weighted score
+const VERDICT_VALUES: Record<CriterionVerdict, number> = {
+  PASS: 1,
+  UNKNOWN: 0.5,
+  FAIL: 0,
+};
+
+export type ScreenerCriterion = {
+  criterion: string;
+  weight: number;
+};
+
+export type CriterionResult = ScreenerCriterion & {
+  verdict: CriterionVerdict;
+  evidence: string | null;
+  reasoning: string | null;
+};
+
+const extractedCriteriaSchema = z.object({
+  criteria: z.array(
+    z.object({
+      criterion: z
+        .string()
+        .describe("A single, self-contained investment criterion"),
+      weight: z
+        .number()
+        .min(1)
+        .max(5)
+        .describe(
+          "Importance from 1 (nice to have) to 5 (hard requirement), based on the screener's wording"
+        ),
+    })
+  ),
+});
+
+const criterionEvaluationSchema = z.object({
+  results: z.array(
+    z.object({
+      index: z.number().describe("The index of the criterion being evaluated"),
+      verdict: z.enum(["PASS", "FAIL", "UNKNOWN"]),
+      evidence: z
+        .string()
+        .describe(
+          "The exact deal data the verdict is based on, quoted verbatim. Empty when the deal data does not cover the criterion"
+        ),
+      reasoning: z.string(),
+    })
+  ),
+});
+
+/**
+ * Parses a section of screener content into discrete, weighted criteria
+ * @param content - A chunk of the screener content
+ * @param signal - Aborts the model call, e.g. when the job is cancelled
+ */
+export async function extractScreenerCriteria(
+  content: string,
+  signal?: AbortSignal
+): Promise<ScreenerCriterion[]> {
+  const prompt = `List every investment criterion in the following screener section. Split compound requirements into separate criteria and skip text that is not a criterion.\n\n${content}`;
+
+  const { object } = await runModelCall(
+    { task: "extraction", prompt, signal },
+    () =>
+      generateObject({
+        model: getModel("extraction"),
+        system:
+          "You turn private equity investment screeners into a list of discrete, checkable criteria",
+        prompt,
+        schema: extractedCriteriaSchema,
+        maxRetries: 0,
+        abortSignal: signal,
+      })
+  );
+
+  return object.criteria.map((criterion) => ({
+    criterion: criterion.criterion.trim(),
+    weight: Math.min(Math.max(criterion.weight, 1), 5),
+  }));
+}
+
+/**
+ * Key under which the same criterion worded with different case or
+ * punctuation is treated as one
+ */
+export const criterionKey = (criterion: string) =>
+  criterion.toLowerCase().replace(/\W+/g, " ").trim();
+
+/**
+ * Removes criteria repeated across overlapping screener chunks, keeping the
+ * highest weight seen for each
+ */
+export function dedupeCriteria<T extends ScreenerCriterion>(
+  criteria: T[]
+): T[] {
+  const byText = new Map<string, T>();
+
+  for (const criterion of criteria) {
+    const key = criterionKey(criterion.criterion);
+    if (!key) continue;
+    const existing = byText.get(key);
+    if (!existing || existing.weight < criterion.weight) {
+      byText.set(key, criterion);
+    }
+  }
+
+  return [...byText.values()];
+}
+
+/**
+ * Splits criteria into the batches evaluated by a single model call
+ */
+export function batchCriteria(
+  criteria: ScreenerCriterion[]
+): ScreenerCriterion[][] {
+  const batches: ScreenerCriterion[][] = [];
+  for (let i = 0; i < criteria.length; i += CRITERIA_PER_EVALUATION) {
+    batches.push(criteria.slice(i, i + CRITERIA_PER_EVALUATION));
+  }
+  return batches;
+}
+
+/**
+ * Evaluates a batch of criteria against the deal
+ * @param dealContext - The deal data the verdicts must be based on
+ * @param criteria - The criteria to evaluate
+ * @param signal - Aborts the model call, e.g. when the job is cancelled
+ */
+export async function evaluateCriteria(
+  dealContext: unknown,
+  criteria: ScreenerCriterion[],
+  signal?: AbortSignal
+): Promise<CriterionResult[]> {
+  const numberedCriteria = criteria
+    .map((criterion, index) => `${index}. ${criterion.criterion}`)
+    .join("\n");
+
+  const prompt = `Evaluate this listing against each numbered criterion. Answer PASS or FAIL only when the deal data supports it, quote that data as evidence, and answer UNKNOWN when the deal data does not say.\n\nListing: ${JSON.stringify(
+    dealContext
+  )}\n\nCriteria:\n${numberedCriteria}`;
+
+  const { object } = await runModelCall(
+    { task: "chunkEvaluation", prompt, signal },
+    () =>
+      generateObject({
+        model: getModel("chunkEvaluation"),
+        system:
+          "You are an expert AI Assistant that specializes in deal sourcing, evaluation and private equity in general",
+        prompt,
+        schema: criterionEvaluationSchema,
+        maxRetries: 0,
+        abortSignal: signal,
+      })
+  );
+
+  const resultsByIndex = new Map(
+    object.results.map((result) => [result.index, result])
+  );
+
+  // Criteria the model skipped count as unknown rather than failing the batch
+  return criteria.map((criterion, index) => {
+    const result = resultsByIndex.get(index);
+    return {
+      ...criterion,
+      verdict: result
+        ? CriterionVerdict[result.verdict]
+        : CriterionVerdict.UNKNOWN,
+      evidence: result?.evidence.trim() || null,
+      reasoning: result?.reasoning.trim() || null,
+    };
+  });
+}
+
+/**
+ * Computes the 0-10 deal score from the weighted criterion verdicts
+ * @returns The score, or null when there are no criteria to score
+ */
+export function computeWeightedScore(
+  results: CriterionResult[]
+): number | null {
+  const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const earned = results.reduce(
+    (sum, result) => sum + result.weight * VERDICT_VALUES[result.verdict],
+    0
+  );
+
+  return Math.round((earned / totalWeight) * 10);
+}
+
+/**
+ * Maps the weighted score onto a sentiment
+ */
+export function sentimentFromScore(score: number | null): Sentiment {
+  if (score === null) return Sentiment.NEUTRAL;
+  if (score >= 7) return Sentiment.POSITIVE;
+  if (score <= 4) return Sentiment.NEGATIVE;
+  return Sentiment.NEUTRAL;
+}
+
+/**
+ * Renders criterion results as plain text for the screening content and the
+ * summary prompt
+ */
+export function formatCriterionResults(results: CriterionResult[]): string {
+  return results
+    .map(
+      (result, index) =>
+        `${index + 1}. [${result.verdict}] (weight ${result.weight}) ${
+          result.criterion
+        }${result.evidence ? `\n   Evidence: ${result.evidence}` : ""}${
+          result.reasoning ? `\n   Reasoning: ${result.reasoning}` : ""
+        }`
+    )
+    .join("\n");
+}
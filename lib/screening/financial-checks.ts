@@ -0,0 +1,231 @@
+import prismaDB from "../prisma";
+import { financialRulesSchema } from "../schemas/financial-rules-schema";
+import type {
+  FinancialFlagCode,
+  financialRulesType,
+} from "../schemas/financial-rules-schema";
+import type { DealContext } from "./pipeline";
+import { logger } from "../observability/logger";
+
+export type FinancialFlagSeverity = "info" | "warning" | "disqualifying";
+
+export type FinancialFlag = {
+  code: FinancialFlagCode;
+  severity: FinancialFlagSeverity;
+  message: string;
+};
+
+export type FinancialMetrics = {
+  // EBITDA / revenue in percent, to compare with the reported margin
+  impliedEbitdaMargin: number | null;
+  // Reported minus implied margin, in percentage points
+  marginDiscrepancy: number | null;
+  // The asking price stands in for enterprise value
+  evToEbitda: number | null;
+  evToRevenue: number | null;
+};
+
+export type FinancialCheckResult = {
+  metrics: FinancialMetrics;
+  flags: FinancialFlag[];
+  disqualified: boolean;
+};
+
+type DealFinancials = Pick<
+  DealContext,
+  "revenue" | "ebitda" | "ebitdaMargin" | "grossRevenue" | "askingPrice"
+>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const ratio = (numerator: number | null, denominator: number) =>
+  numerator !== null && numerator > 0 && denominator > 0
+    ? round(numerator / denominator)
+    : null;
+
+/**
+ * Reads a screener's financial rules. Screeners without rules get the
+ * defaults: data checks only, nothing disqualifies.
+ */
+export async function getScreenerFinancialRules(
+  screenerId: string
+): Promise<financialRulesType> {
+  const screener = await prismaDB.screener.findFirst({
+    where: { id: screenerId },
+    select: { financialRules: true },
+  });
+  return parseFinancialRules(screener?.financialRules, screenerId);
+}
+
+/**
+ * Validates stored financial rules, falling back to the defaults when they
+ * are missing or invalid
+ */
+export function parseFinancialRules(
+  rules: unknown,
+  screenerId: string
+): financialRulesType {
+  const parsed = financialRulesSchema.safeParse(rules ?? {});
+  if (!parsed.success) {
+    logger.error(`Invalid financial rules on screener ${screenerId}`);
+    return financialRulesSchema.parse({});
+  }
+  return parsed.data;
+}
+
+/**
+ * Computes derived metrics from a deal's financials and flags inconsistent or
+ * missing data and breached screener thresholds. Needs no model call.
+ * @param deal - The reported financials
+ * @param rules - The screener's thresholds and which flags disqualify
+ */
+export function runFinancialChecks(
+  deal: DealFinancials,
+  rules: financialRulesType
+): FinancialCheckResult {
+  const { revenue, ebitda, ebitdaMargin, grossRevenue, askingPrice } = deal;
+
+  const impliedEbitdaMargin =
+    revenue > 0 ? round((ebitda / revenue) * 100) : null;
+  const metrics: FinancialMetrics = {
+    impliedEbitdaMargin,
+    marginDiscrepancy:
+      impliedEbitdaMargin === null
+        ? null
+        : round(ebitdaMargin - impliedEbitdaMargin),
+    evToEbitda: ratio(askingPrice, ebitda),
+    evToRevenue: ratio(askingPrice, revenue),
+  };
+
+  const flags: FinancialFlag[] = [];
+  const flag = (
+    code: FinancialFlagCode,
+    message: string,
+    severity: Exclude<FinancialFlagSeverity, "disqualifying"> = "warning"
+  ) =>
+    flags.push({
+      code,
+      message,
+      severity: rules.disqualifyOn.includes(code) ? "disqualifying" : severity,
+    });
+
+  // Data quality
+  if (revenue <= 0) {
+    flag("MISSING_REVENUE", "Revenue is missing or not positive");
+  }
+  if (ebitda === 0) flag("MISSING_EBITDA", "EBITDA is missing");
+  if (askingPrice === null) {
+    flag("MISSING_ASKING_PRICE", "Asking price is missing", "info");
+  } else if (askingPrice <= 0) {
+    flag("ZERO_ASKING_PRICE", `Asking price is ${askingPrice}`);
+  }
+  if (grossRevenue === null) {
+    flag("MISSING_GROSS_REVENUE", "Gross revenue is missing", "info");
+  } else if (revenue > 0 && grossRevenue < revenue) {
+    flag(
+      "GROSS_REVENUE_BELOW_REVENUE",
+      `Gross revenue ${grossRevenue} is below revenue ${revenue}`
+    );
+  }
+  if (ebitda < 0) {
+    flag("NEGATIVE_EBITDA", `EBITDA is negative (${ebitda})`, "info");
+  }
+  if (ebitdaMargin > 100) {
+    flag("MARGIN_ABOVE_100", `EBITDA margin is ${ebitdaMargin}%`);
+  }
+  if (revenue > 0 && ebitda > revenue) {
+    flag(
+      "EBITDA_EXCEEDS_REVENUE",
+      `EBITDA ${ebitda} exceeds revenue ${revenue}`
+    );
+  }
+  if (
+    metrics.marginDiscrepancy !== null &&
+    Math.abs(metrics.marginDiscrepancy) > rules.marginTolerance
+  ) {
+    flag(
+      "MARGIN_MISMATCH",
+      `Reported EBITDA margin ${ebitdaMargin}% doesn't match EBITDA / revenue (${impliedEbitdaMargin}%)`
+    );
+  }
+
+  // Screener thresholds
+  if (rules.minRevenue !== undefined && revenue < rules.minRevenue) {
+    flag(
+      "BELOW_MIN_REVENUE",
+      `Revenue ${revenue} is below the minimum of ${rules.minRevenue}`
+    );
+  }
+  if (rules.minEbitda !== undefined && ebitda < rules.minEbitda) {
+    flag(
+      "BELOW_MIN_EBITDA",
+      `EBITDA ${ebitda} is below the minimum of ${rules.minEbitda}`
+    );
+  }
+  if (
+    rules.minEbitdaMargin !== undefined &&
+    ebitdaMargin < rules.minEbitdaMargin
+  ) {
+    flag(
+      "BELOW_MIN_MARGIN",
+      `EBITDA margin ${ebitdaMargin}% is below the minimum of ${rules.minEbitdaMargin}%`
+    );
+  }
+  if (
+    rules.maxAskingPrice !== undefined &&
+    askingPrice !== null &&
+    askingPrice > rules.maxAskingPrice
+  ) {
+    flag(
+      "ABOVE_MAX_ASKING_PRICE",
+      `Asking price ${askingPrice} is above the maximum of ${rules.maxAskingPrice}`
+    );
+  }
+  if (
+    rules.maxEvToEbitda !== undefined &&
+    metrics.evToEbitda !== null &&
+    metrics.evToEbitda > rules.maxEvToEbitda
+  ) {
+    flag(
+      "ABOVE_MAX_EV_EBITDA",
+      `EV/EBITDA of ${metrics.evToEbitda}x is above the maximum of ${rules.maxEvToEbitda}x`
+    );
+  }
+  if (
+    rules.maxEvToRevenue !== undefined &&
+    metrics.evToRevenue !== null &&
+    metrics.evToRevenue > rules.maxEvToRevenue
+  ) {
+    flag(
+      "ABOVE_MAX_EV_REVENUE",
+      `EV/revenue of ${metrics.evToRevenue}x is above the maximum of ${rules.maxEvToRevenue}x`
+    );
+  }
+
+  return {
+    metrics,
+    flags,
+    disqualified: flags.some((item) => item.severity === "disqualifying"),
+  };
+}
+
+/**
+ * Renders the metrics and flags as plain text for prompts and the screening
+ * content
+ */
+export function formatFinancialChecks(checks: FinancialCheckResult): string {
+  const { metrics } = checks;
+  const value = (metric: number | null, suffix = "") =>
+    metric === null ? "n/a" : `${metric}${suffix}`;
+
+  const lines = [
+    `Implied EBITDA margin: ${value(metrics.impliedEbitdaMargin, "%")}`,
+    `Margin discrepancy: ${value(metrics.marginDiscrepancy, " pts")}`,
+    `EV/EBITDA: ${value(metrics.evToEbitda, "x")}`,
+    `EV/revenue: ${value(metrics.evToRevenue, "x")}`,
+    ...checks.flags.map(
+      (item) => `[${item.severity.toUpperCase()}] ${item.message}`
+    ),
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,246 @@
+import type { AiScreening, Sentiment } from "@prisma/client";
+import type { Chunk } from "../chunking";
+import type { JobProgress } from "../jobs/job-store";
+import type { Submission } from "../../screener";
+import type { CriterionResult } from "./criteria";
+import type { ComparableDeal } from "../deals/comparables";
+import type { financialRulesType } from "../schemas/financial-rules-schema";
+import type { FinancialCheckResult } from "./financial-checks";
+import {
+  checkFinancials,
+  chunkScreener,
+  loadContext,
+  lookupCachedScreening,
+  mapChunks,
+  notify,
+  persistScreening,
+  reduceDisqualified,
+  reduceResults,
+  validateReduction,
+} from "./stages";
+import { logger } from "../observability/logger";
+import {
+  pipelineFailures,
+  pipelineStageDuration,
+} from "../observability/metrics";
+
+export type PipelineStage =
+  | "loadContext"
+  | "check"
+  | "chunk"
+  | "map"
+  | "reduce"
+  | "validate"
+  | "persist"
+  | "notify";
+
+// Where the deal data comes from: the Deal row, or a queued payload
+export type ScreeningSource =
+  | { type: "deal"; dealId: string }
+  | { type: "submission"; submission: Submission };
+
+export type ScreeningInput = {
+  source: ScreeningSource;
+  screenerId: string;
+  // Screen against this version instead of the screener's current content
+  screenerVersionId?: string;
+  // Skip cached results and call the model again
+  force?: boolean;
+  // How many comparable deals to show the summary model, 0 for none
+  comparables?: number;
+  // Stops the screening before its next model call or before it is saved
+  signal?: AbortSignal;
+};
+
+export type PipelineHooks = {
+  // Called as the screening moves through its stages, e.g. to drive a progress bar
+  onProgress?: (progress: JobProgress) => Promise<void> | void;
+  onStageComplete?: (
+    stage: PipelineStage,
+    durationMs: number
+  ) => Promise<void> | void;
+};
+
+export type DealDocumentContext = {
+  title: string;
+  category: string;
+  text: string;
+};
+
+// The deal data every model call sees
+export type DealContext = {
+  title: string | null;
+  dealCaption: string;
+  dealTeaser: string | null;
+  dealType: string;
+  brokerage: string;
+  industry: string;
+  companyLocation: string | null;
+  revenue: number;
+  ebitda: number;
+  ebitdaMargin: number;
+  grossRevenue: number | null;
+  askingPrice: number | null;
+  tags: string[];
+  documents: DealDocumentContext[];
+};
+
+export type ScreeningContext = {
+  dealId: string;
+  deal: DealContext;
+  screener: {
+    screenerId: string;
+    // Null for queued payloads from before screener versioning
+    screenerVersionId: string | null;
+    content: string;
+    financialRules: financialRulesType;
+  };
+  // Screened deals similar to this one, with their scores
+  comparables: ComparableDeal[];
+  // Hash of everything the result depends on, see ./cache
+  cacheKey: string;
+  force: boolean;
+  signal?: AbortSignal;
+  reportProgress: (progress: JobProgress) => Promise<void>;
+};
+
+export type ScreeningReduction = {
+  criterionResults: CriterionResult[];
+  score: number | null;
+  sentiment: Sentiment;
+  formattedResults: string;
+  title: string;
+  explanation: string;
+  financialChecks: FinancialCheckResult;
+};
+
+export type PersistedScreening = {
+  screening: AiScreening;
+  // An existing screening of this deal was returned instead of a new one
+  reused: boolean;
+  cached: boolean;
+};
+
+export type ScreeningPipelineResult =
+  | {
+      success: true;
+      message: string;
+      evaluationId: string;
+      data: AiScreening;
+      reused: boolean;
+    }
+  | {
+      success: false;
+      message: string;
+      stage: PipelineStage;
+      // The input signal stopped the screening
+      aborted: boolean;
+    };
+
+/**
+ * Screens a deal against a screener: load context, check the financials,
+ * chunk the screener, map each chunk to criterion verdicts, reduce them to a
+ * score and summary, validate, persist and notify. A cached result for the
+ * same inputs skips everything between loading the context and notifying; a
+ * deal failing a hard financial check skips the model calls. An aborted
+ * `signal` stops the screening at the next stage or model call, so nothing is
+ * saved.
+ * @param input - The deal source, screener and cache policy
+ * @param hooks - Optional progress and stage callbacks
+ */
+export async function runScreeningPipeline(
+  input: ScreeningInput,
+  hooks: PipelineHooks = {}
+): Promise<ScreeningPipelineResult> {
+  let stage: PipelineStage = "loadContext";
+
+  const callHook = async (hook: () => Promise<void> | void) => {
+    try {
+      await hook();
+    } catch (error) {
+      logger.error("Error in screening pipeline hook", { error });
+    }
+  };
+
+  const runStage = async <T>(
+    name: PipelineStage,
+    run: () => Promise<T> | T
+  ): Promise<T> => {
+    stage = name;
+    input.signal?.throwIfAborted();
+    const startedAt = performance.now();
+    const output = await run();
+    const durationMs = performance.now() - startedAt;
+    pipelineStageDuration.observe({ stage: name }, durationMs / 1000);
+    await callHook(() => hooks.onStageComplete?.(name, durationMs));
+    return output;
+  };
+
+  const reportProgress = (progress: JobProgress) =>
+    callHook(() => hooks.onProgress?.(progress));
+
+  try {
+    const context = await runStage("loadContext", () =>
+      loadContext(input, reportProgress)
+    );
+
+    let persisted = await lookupCachedScreening(context);
+    if (!persisted) {
+      const checks = await runStage("check", () => checkFinancials(context));
+
+      let reduction: ScreeningReduction;
+      if (checks.disqualified) {
+        reduction = await runStage("reduce", () =>
+          reduceDisqualified(context, checks)
+        );
+      } else {
+        const chunks: Chunk[] = await runStage("chunk", () =>
+          chunkScreener(context)
+        );
+        const chunkResults = await runStage("map", () =>
+          mapChunks(context, chunks, checks)
+        );
+        reduction = await runStage("reduce", () =>
+          reduceResults(context, chunkResults, checks)
+        );
+      }
+      await runStage("validate", () => validateReduction(reduction));
+      persisted = await runStage("persist", () =>
+        persistScreening(context, reduction)
+      );
+    }
+
+    const { screening, reused, cached } = persisted;
+    await runStage("notify", () => notify(context, persisted));
+
+    return {
+      success: true,
+      message: cached
+        ? "Cached evaluation returned"
+        : "Evaluation saved successfully",
+      evaluationId: screening.id,
+      data: screening,
+      reused,
+    };
+  } catch (error) {
+    if (input.signal?.aborted) {
+      logger.warn(`Screening pipeline aborted in stage ${stage}`);
+      const reason = input.signal.reason;
+      return {
+        success: false,
+        message: reason instanceof Error ? reason.message : "Aborted",
+        stage,
+        aborted: true,
+      };
+    }
+
+    pipelineFailures.inc({ stage });
+    logger.error(`Error in screening pipeline stage ${stage}`, { error });
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error",
+      stage,
+      aborted: false,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import prismaDB from "../prisma";
+import { logger } from "../observability/logger";
+
+export const hashScreenerContent = (content: string) =>
+  createHash("sha256").update(content).digest("hex");
+
+// Versions are compared by the JSON of their rules; jsonb columns come back
+// with their keys in a canonical order
+const sameFinancialRules = (a: Prisma.JsonValue, b: Prisma.JsonValue) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Stores the screener content and financial rules as its next version
+ * @param tx - Transaction client, so the version is written with the screener
+ */
+export async function createScreenerVersion(
+  screener: {
+    id: string;
+    content: string;
+    fileUrl: string;
+    financialRules: Prisma.JsonValue;
+  },
+  tx: Prisma.TransactionClient = prismaDB
+) {
+  const latest = await tx.screenerVersion.findFirst({
+    where: { screenerId: screener.id },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return tx.screenerVersion.create({
+    data: {
+      screenerId: screener.id,
+      version: (latest?.version ?? 0) + 1,
+      content: screener.content,
+      contentHash: hashScreenerContent(screener.content),
+      fileUrl: screener.fileUrl,
+      financialRules: screener.financialRules ?? Prisma.DbNull,
+    },
+  });
+}
+
+/**
+ * Returns the version matching the screener's current content and financial
+ * rules. Screeners created before versioning, or edited directly in the
+ * database, get a new version on first use.
+ * @returns The version, or null when the screener doesn't exist
+ */
+export async function getCurrentScreenerVersion(screenerId: string) {
+  const screener = await prismaDB.screener.findFirst({
+    where: { id: screenerId },
+  });
+  if (!screener) return null;
+
+  const findLatest = () =>
+    prismaDB.screenerVersion.findFirst({
+      where: { screenerId },
+      orderBy: { version: "desc" },
+    });
+
+  const latest = await findLatest();
+  if (
+    latest?.contentHash === hashScreenerContent(screener.content) &&
+    sameFinancialRules(latest.financialRules, screener.financialRules)
+  ) {
+    return latest;
+  }
+
+  try {
+    const version = await createScreenerVersion(screener);
+    logger.info(
+      `Recorded version ${version.version} of screener ${screenerId}`
+    );
+    return version;
+  } catch (error) {
+    // Another job recorded the same version first
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return findLatest();
+    }
+    throw error;
+  }
+}
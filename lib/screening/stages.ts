@@ -0,0 +1,549 @@
+import { generateObject } from "ai";
+import { Sentiment } from "@prisma/client";
+import { z } from "zod";
+import prismaDB from "../prisma";
+import { chunkText } from "../chunking";
+import type { Chunk } from "../chunking";
+import type { JobProgress } from "../jobs/job-store";
+import {
+  getModel,
+  getModelConfig,
+  getModelConfigs,
+} from "../ai/model-registry";
+import type { ModelTask } from "../ai/model-registry";
+import {
+  CHUNK_CONCURRENCY,
+  checkChunkFailures,
+  mapWithConcurrency,
+  runModelCall,
+} from "../ai/model-calls";
+import { scheduleBitrixSync } from "../bitrix/push-screening";
+import { indexScreening } from "../retrieval/retrieval-index";
+import {
+  batchCriteria,
+  computeWeightedScore,
+  dedupeCriteria,
+  evaluateCriteria,
+  extractScreenerCriteria,
+  formatCriterionResults,
+  sentimentFromScore,
+} from "./criteria";
+import type { CriterionResult } from "./criteria";
+import {
+  findCachedScreening,
+  getCachedChunk,
+  getScreeningCacheKey,
+  setCachedChunk,
+  SCREENING_PROMPT_VERSION,
+} from "./cache";
+import { getCurrentScreenerVersion } from "./screener-versions";
+import {
+  findComparableDeals,
+  formatComparables,
+} from "../deals/comparables";
+import {
+  formatFinancialChecks,
+  getScreenerFinancialRules,
+  parseFinancialRules,
+  runFinancialChecks,
+} from "./financial-checks";
+import type { FinancialCheckResult } from "./financial-checks";
+import type {
+  DealContext,
+  DealDocumentContext,
+  PersistedScreening,
+  ScreeningContext,
+  ScreeningInput,
+  ScreeningReduction,
+} from "./pipeline";
+import { logger } from "../observability/logger";
+
+const SCREENING_TASKS = [
+  "extraction",
+  "chunkEvaluation",
+  "finalSummary",
+] as const satisfies ModelTask[];
+
+const DEFAULT_COMPARABLES = Number(process.env.SCREENING_COMPARABLES) || 0;
+
+// Upper bound on how much extracted document text is sent along with the deal
+const DEAL_DOCUMENT_CONTEXT_CHARS =
+  Number(process.env.DEAL_DOCUMENT_CONTEXT_CHARS) || 20000;
+
+/**
+ * Loads the extracted text of a deal's documents, newest first, trimmed to the
+ * context budget
+ */
+async function getDealDocumentContext(
+  dealId: string
+): Promise<DealDocumentContext[]> {
+  const documents = await prismaDB.dealDocument.findMany({
+    where: { dealId, extractedText: { not: null } },
+    select: { title: true, category: true, extractedText: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  let remaining = DEAL_DOCUMENT_CONTEXT_CHARS;
+  const context = [];
+
+  for (const document of documents) {
+    if (remaining <= 0) break;
+    const text = (document.extractedText ?? "").slice(0, remaining);
+    remaining -= text.length;
+    context.push({
+      title: document.title,
+      category: document.category,
+      text,
+    });
+  }
+
+  return context;
+}
+
+/**
+ * Reads the deal fields from the Deal row, or from the queued payload
+ */
+async function loadDeal(input: ScreeningInput) {
+  const { source } = input;
+
+  if (source.type === "submission") {
+    const { submission } = source;
+    return {
+      dealId: submission.id,
+      fields: {
+        title: submission.title,
+        dealCaption: submission.dealCaption,
+        dealTeaser: submission.dealTeaser,
+        dealType: submission.dealType,
+        brokerage: submission.brokerage,
+        industry: submission.industry,
+        companyLocation: submission.companyLocation || null,
+        revenue: submission.revenue,
+        ebitda: submission.ebitda,
+        ebitdaMargin: submission.ebitdaMargin,
+        grossRevenue: submission.grossRevenue,
+        askingPrice: submission.askingPrice,
+        tags: submission.tags,
+      },
+    };
+  }
+
+  const deal = await prismaDB.deal.findFirst({
+    where: { id: source.dealId },
+    select: {
+      title: true,
+      dealCaption: true,
+      dealTeaser: true,
+      dealType: true,
+      brokerage: true,
+      industry: true,
+      companyLocation: true,
+      revenue: true,
+      ebitda: true,
+      ebitdaMargin: true,
+      grossRevenue: true,
+      askingPrice: true,
+      tags: true,
+    },
+  });
+
+  if (!deal) throw new Error("Deal not found");
+  return { dealId: source.dealId, fields: deal };
+}
+
+/**
+ * Resolves the screener content and financial rules: the pinned version, the
+ * content carried by a queued payload, or the screener's current version
+ */
+async function loadScreener(input: ScreeningInput) {
+  const { source, screenerId } = input;
+  const screenerVersionId =
+    input.screenerVersionId ??
+    (source.type === "submission"
+      ? source.submission.screenerVersionId
+      : undefined);
+
+  if (screenerVersionId) {
+    const version = await prismaDB.screenerVersion.findFirst({
+      where: { id: screenerVersionId, screenerId },
+    });
+    if (!version) throw new Error("Screener version not found");
+    return {
+      screenerId,
+      screenerVersionId,
+      content: version.content,
+      // Versions recorded before rules were snapshotted use the current ones
+      financialRules:
+        version.financialRules !== null
+          ? parseFinancialRules(version.financialRules, screenerId)
+          : await getScreenerFinancialRules(screenerId),
+    };
+  }
+
+  if (source.type === "submission") {
+    return {
+      screenerId,
+      screenerVersionId: null,
+      content: source.submission.screenerContent,
+      financialRules: await getScreenerFinancialRules(screenerId),
+    };
+  }
+
+  const version = await getCurrentScreenerVersion(screenerId);
+  if (!version) throw new Error("Screener not found");
+  return {
+    screenerId,
+    screenerVersionId: version.id,
+    content: version.content,
+    financialRules: parseFinancialRules(version.financialRules, screenerId),
+  };
+}
+
+/**
+ * Stage 1: loads the deal, its documents and the screener version with its
+ * financial rules
+ */
+export async function loadContext(
+  input: ScreeningInput,
+  reportProgress: (progress: JobProgress) => Promise<void>
+): Promise<ScreeningContext> {
+  const { dealId, fields } = await loadDeal(input);
+  const screener = await loadScreener(input);
+  const documents = await getDealDocumentContext(dealId);
+  const deal: DealContext = { ...fields, documents };
+
+  const comparablesCount = input.comparables ?? DEFAULT_COMPARABLES;
+  const comparables =
+    comparablesCount > 0
+      ? ((await findComparableDeals(dealId, {
+          limit: comparablesCount,
+          // Scores from other screeners measure other criteria
+          screenerId: input.screenerId,
+          screenedOnly: true,
+        })) ?? [])
+      : [];
+
+  return {
+    dealId,
+    deal,
+    screener,
+    comparables,
+    // Identical deal data, screener and financial rules, prompts, models and
+    // comparables give identical results
+    cacheKey: getScreeningCacheKey(
+      [...SCREENING_TASKS],
+      deal,
+      screener.content,
+      screener.financialRules,
+      comparables.map((comparable) => comparable.screening?.id)
+    ),
+    force: input.force ?? false,
+    signal: input.signal,
+    reportProgress,
+  };
+}
+
+/**
+ * Returns a screening already produced from the same inputs, unless forced
+ */
+export async function lookupCachedScreening(
+  context: ScreeningContext
+): Promise<PersistedScreening | null> {
+  if (context.force) return null;
+
+  const cached = await findCachedScreening(context.cacheKey, {
+    dealId: context.dealId,
+    screenerId: context.screener.screenerId,
+    screenerVersionId: context.screener.screenerVersionId ?? undefined,
+  });
+  if (!cached) return null;
+
+  logger.info(
+    `Cache hit for deal ${context.dealId} and screener ${context.screener.screenerId}: ${cached.screening.id}`
+  );
+  return { ...cached, cached: true };
+}
+
+/**
+ * Stage 2: computes derived financial metrics and flags anomalies, missing
+ * data and breached screener thresholds
+ */
+export function checkFinancials(
+  context: ScreeningContext
+): FinancialCheckResult {
+  const checks = runFinancialChecks(
+    context.deal,
+    context.screener.financialRules
+  );
+  if (checks.flags.length > 0) {
+    logger.info(`Financial checks flagged deal ${context.dealId}`, {
+      flags: checks.flags.map((flag) => flag.code),
+    });
+  }
+  return checks;
+}
+
+/**
+ * Stage 3: splits the screener into chunks for the extraction model
+ */
+export function chunkScreener(context: ScreeningContext): Chunk[] {
+  const chunks = chunkText(context.screener.content, {
+    modelId: getModelConfig("extraction").modelId,
+  });
+  logger.info(`Screener split into ${chunks.length} chunks`);
+  return chunks;
+}
+
+/**
+ * Stage 4: parses each chunk into criteria and evaluates them against the
+ * deal, several chunks at a time. Failed chunks are left out as long as the
+ * failure policy tolerates them.
+ */
+export async function mapChunks(
+  context: ScreeningContext,
+  chunks: Chunk[],
+  checks: FinancialCheckResult
+): Promise<CriterionResult[]> {
+  const totalChunks = chunks.length;
+  let completedChunks = 0;
+  // The model sees the derived metrics and flags next to the raw financials
+  const listing = {
+    ...context.deal,
+    derivedMetrics: checks.metrics,
+    dataFlags: checks.flags.map((flag) => flag.message),
+  };
+
+  const settled = await mapWithConcurrency(
+    chunks,
+    CHUNK_CONCURRENCY,
+    async (chunk, index) => {
+      const chunkCacheKey = getScreeningCacheKey(
+        ["extraction", "chunkEvaluation"],
+        listing,
+        chunk.text
+      );
+      const cachedResults = context.force
+        ? null
+        : await getCachedChunk<CriterionResult[]>(chunkCacheKey);
+
+      let results: CriterionResult[];
+      if (cachedResults) {
+        results = cachedResults;
+        logger.info(`Using cached chunk ${index + 1}/${totalChunks}`);
+      } else {
+        const criteria = await extractScreenerCriteria(
+          chunk.text,
+          context.signal
+        );
+        results = [];
+        for (const batch of batchCriteria(criteria)) {
+          results.push(
+            ...(await evaluateCriteria(listing, batch, context.signal))
+          );
+        }
+        await setCachedChunk(chunkCacheKey, results);
+        logger.info(
+          `Evaluated ${criteria.length} criteria in chunk ${index + 1}/${totalChunks}`
+        );
+      }
+
+      await context.reportProgress({
+        stage: "evaluating_chunks",
+        current: ++completedChunks,
+        total: totalChunks,
+      });
+      return results;
+    }
+  );
+
+  // Chunks failing because the job was aborted aren't chunk failures
+  context.signal?.throwIfAborted();
+
+  const chunkResults: CriterionResult[] = [];
+  let failedChunks = 0;
+  settled.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      chunkResults.push(...result.value);
+    } else {
+      failedChunks++;
+      logger.error(`Error evaluating chunk ${index + 1}`, {
+        error: result.reason,
+      });
+    }
+  });
+
+  const failureMessage = checkChunkFailures(failedChunks, totalChunks);
+  if (failureMessage) throw new Error(failureMessage);
+
+  return chunkResults;
+}
+
+/**
+ * Stage 5: dedupes the criterion results, scores them and writes the summary
+ */
+export async function reduceResults(
+  context: ScreeningContext,
+  chunkResults: CriterionResult[],
+  checks: FinancialCheckResult
+): Promise<ScreeningReduction> {
+  // Overlapping chunks can yield the same criterion twice
+  const criterionResults = dedupeCriteria(chunkResults);
+  if (criterionResults.length === 0) {
+    throw new Error("No criteria found in screener");
+  }
+
+  const score = computeWeightedScore(criterionResults);
+  const sentiment = sentimentFromScore(score);
+  const formattedResults = formatCriterionResults(criterionResults);
+
+  await context.reportProgress({ stage: "generating_summary" });
+
+  let prompt = `A deal scored ${score}/10 against an investment screener. Write a title and an explanation of the deal's strengths, weaknesses and alignment with the criteria, based on these criterion results:\n\n${formattedResults}`;
+  if (context.comparables.length > 0) {
+    const comparables = formatComparables(context.comparables);
+    prompt += `\n\nFor reference, comparable deals we have screened and how they scored:\n${comparables}`;
+  }
+  const financialChecks = formatFinancialChecks(checks);
+  prompt += `\n\nFinancial checks run on the reported figures:\n${financialChecks}`;
+
+  let summary;
+  try {
+    summary = await runModelCall(
+      { task: "finalSummary", prompt, signal: context.signal },
+      () =>
+        generateObject({
+          model: getModel("finalSummary"),
+          system:
+            "You are an expert AI Assistant that specializes in deal sourcing, evaluation and private equity in general",
+          prompt,
+          schema: z.object({
+            title: z.string(),
+            explanation: z.string(),
+          }),
+          maxRetries: 0,
+          abortSignal: context.signal,
+        })
+    );
+  } catch (error) {
+    context.signal?.throwIfAborted();
+    logger.error("Error generating summary", { error });
+    throw new Error("Error generating summary");
+  }
+
+  return {
+    criterionResults,
+    score,
+    sentiment,
+    formattedResults,
+    title: summary.object.title.trim(),
+    explanation: summary.object.explanation.trim(),
+    financialChecks: checks,
+  };
+}
+
+/**
+ * Stage 5, for deals failing a hard financial check: scores the deal 0
+ * without calling the model
+ */
+export function reduceDisqualified(
+  context: ScreeningContext,
+  checks: FinancialCheckResult
+): ScreeningReduction {
+  const reasons = checks.flags
+    .filter((flag) => flag.severity === "disqualifying")
+    .map((flag) => flag.message);
+
+  logger.info(
+    `Deal ${context.dealId} disqualified by screener ${context.screener.screenerId}: ${reasons.join("; ")}`
+  );
+
+  return {
+    criterionResults: [],
+    score: 0,
+    sentiment: Sentiment.NEGATIVE,
+    formattedResults: formatFinancialChecks(checks),
+    title: `Disqualified: ${reasons[0]}`,
+    explanation: `The deal fails the screener's hard financial requirements, so it was not evaluated against the criteria:\n${reasons
+      .map((reason) => `- ${reason}`)
+      .join("\n")}`,
+    financialChecks: checks,
+  };
+}
+
+/**
+ * Stage 6: rejects results that shouldn't be saved
+ */
+export function validateReduction(reduction: ScreeningReduction) {
+  if (!reduction.title || !reduction.explanation) {
+    throw new Error("Summary is missing a title or explanation");
+  }
+  const { score } = reduction;
+  if (score !== null && (score < 0 || score > 10)) {
+    throw new Error(`Score ${reduction.score} is outside 0-10`);
+  }
+}
+
+/**
+ * Stage 7: saves the screening with its criterion results and provenance
+ */
+export async function persistScreening(
+  context: ScreeningContext,
+  reduction: ScreeningReduction
+): Promise<PersistedScreening> {
+  const screening = await prismaDB.aiScreening.create({
+    data: {
+      dealId: context.dealId,
+      title: reduction.title,
+      explanation: reduction.explanation,
+      score: reduction.score,
+      content: reduction.formattedResults,
+      sentiment: reduction.sentiment,
+      screenerId: context.screener.screenerId,
+      screenerVersionId: context.screener.screenerVersionId,
+      promptVersion: SCREENING_PROMPT_VERSION,
+      models: getModelConfigs([...SCREENING_TASKS]),
+      financialChecks: reduction.financialChecks,
+      cacheKey: context.cacheKey,
+      ScreeningCriterionResult: {
+        create: reduction.criterionResults.map((result, position) => ({
+          position,
+          criterion: result.criterion,
+          weight: result.weight,
+          verdict: result.verdict,
+          evidence: result.evidence,
+          reasoning: result.reasoning,
+        })),
+      },
+    },
+  });
+
+  logger.info(`Saved screening ${screening.id} for deal ${context.dealId}`);
+  return { screening, reused: false, cached: false };
+}
+
+/**
+ * Stage 8: reports the saved screening, schedules its Bitrix push and adds it
+ * to the retrieval index. Screenings whose notify already finished are only
+ * reported, so a cache hit still pushes a result whose first run failed here.
+ */
+export async function notify(
+  context: ScreeningContext,
+  persisted: PersistedScreening
+) {
+  await context.reportProgress({
+    stage: "saved",
+    aiScreeningId: persisted.screening.id,
+  });
+
+  if (persisted.screening.notifiedAt) return;
+
+  await scheduleBitrixSync(persisted.screening.id);
+  await indexScreening({
+    ...persisted.screening,
+    industry: context.deal.industry,
+  });
+  await prismaDB.aiScreening.update({
+    where: { id: persisted.screening.id },
+    data: { notifiedAt: new Date() },
+  });
+}
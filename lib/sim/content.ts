@@ -0,0 +1,156 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import prismaDB from "../prisma";
+import { getModel } from "../ai/model-registry";
+import { runModelCall } from "../ai/model-calls";
+import { runFinancialChecks } from "../screening/financial-checks";
+import { financialRulesSchema } from "../schemas/financial-rules-schema";
+
+// Upper bound on how much extracted document text the model sees
+const SIM_DOCUMENT_CONTEXT_CHARS =
+  Number(process.env.SIM_DOCUMENT_CONTEXT_CHARS) || 30000;
+
+export type SimSection = {
+  heading: string;
+  body: string;
+};
+
+// What both renderers lay out
+export type SimDocument = {
+  title: string;
+  caption: string;
+  generatedAt: Date;
+  // Reported figures and derived multiples, rendered as a table
+  financials: { label: string; value: string }[];
+  sections: SimSection[];
+};
+
+const simContentSchema = z.object({
+  caption: z
+    .string()
+    .describe("One sentence describing the business and the opportunity"),
+  companyOverview: z.string(),
+  financials: z
+    .string()
+    .describe("Commentary on revenue, profitability, margins and valuation"),
+  dealTerms: z.string(),
+  investmentThesis: z.string(),
+});
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+
+/**
+ * Loads a deal with its document text and latest screening
+ */
+async function loadSimSources(dealId: string) {
+  const deal = await prismaDB.deal.findFirst({ where: { id: dealId } });
+  if (!deal) return null;
+
+  const [documents, screening] = await Promise.all([
+    prismaDB.dealDocument.findMany({
+      where: { dealId, extractedText: { not: null } },
+      select: { title: true, category: true, extractedText: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    prismaDB.aiScreening.findFirst({
+      where: { dealId },
+      orderBy: { createdAt: "desc" },
+      select: { title: true, explanation: true, score: true, sentiment: true },
+    }),
+  ]);
+
+  let remaining = SIM_DOCUMENT_CONTEXT_CHARS;
+  const documentText = [];
+  for (const document of documents) {
+    if (remaining <= 0) break;
+    const text = (document.extractedText ?? "").slice(0, remaining);
+    remaining -= text.length;
+    documentText.push(`${document.title} (${document.category}):\n${text}`);
+  }
+
+  return { deal, documentText, screening };
+}
+
+/**
+ * Writes the sections of a Summary Information Memorandum for a deal from its
+ * fields, document text and latest screening
+ * @param dealId - The deal to describe
+ * @param signal - Aborts the model call, e.g. when the job is cancelled
+ * @returns The document, or null when the deal doesn't exist
+ */
+export async function buildSimDocument(
+  dealId: string,
+  signal?: AbortSignal
+): Promise<SimDocument | null> {
+  const sources = await loadSimSources(dealId);
+  if (!sources) return null;
+  const { deal, documentText, screening } = sources;
+
+  const { metrics } = runFinancialChecks(deal, financialRulesSchema.parse({}));
+  const financials = [
+    { label: "Revenue", value: formatUsd(deal.revenue) },
+    ...(deal.grossRevenue !== null
+      ? [{ label: "Gross revenue", value: formatUsd(deal.grossRevenue) }]
+      : []),
+    { label: "EBITDA", value: formatUsd(deal.ebitda) },
+    { label: "EBITDA margin", value: `${deal.ebitdaMargin}%` },
+    ...(deal.askingPrice !== null
+      ? [{ label: "Asking price", value: formatUsd(deal.askingPrice) }]
+      : []),
+    ...(metrics.evToEbitda !== null
+      ? [{ label: "Price / EBITDA", value: `${metrics.evToEbitda}x` }]
+      : []),
+    ...(metrics.evToRevenue !== null
+      ? [{ label: "Price / revenue", value: `${metrics.evToRevenue}x` }]
+      : []),
+  ];
+
+  const listing = {
+    title: deal.title,
+    dealCaption: deal.dealCaption,
+    dealTeaser: deal.dealTeaser,
+    dealType: deal.dealType,
+    brokerage: deal.brokerage,
+    industry: deal.industry,
+    companyLocation: deal.companyLocation,
+    status: deal.status,
+    tags: deal.tags,
+    financials,
+  };
+
+  let prompt = `Write a Summary Information Memorandum for this deal. Use only the information given, and say so when something isn't covered.\n\nListing: ${JSON.stringify(listing)}`;
+  if (documentText.length > 0) {
+    prompt += `\n\nDeal documents:\n${documentText.join("\n\n")}`;
+  }
+  if (screening) {
+    prompt += `\n\nLatest screening against our investment criteria (score ${screening.score ?? "n/a"}/10, ${screening.sentiment}): ${screening.title}\n${screening.explanation}`;
+  }
+
+  const { object } = await runModelCall(
+    { task: "simGeneration", prompt, signal },
+    () =>
+      generateObject({
+        model: getModel("simGeneration"),
+        system:
+          "You are a private equity associate writing concise, factual deal memoranda for an investment committee",
+        prompt,
+        schema: simContentSchema,
+        maxRetries: 0,
+        abortSignal: signal,
+      })
+  );
+
+  return {
+    title: deal.title || deal.dealCaption,
+    caption: object.caption.trim(),
+    generatedAt: new Date(),
+    financials,
+    sections: [
+      { heading: "Company overview", body: object.companyOverview.trim() },
+      { heading: "Financials", body: object.financials.trim() },
+      { heading: "Deal terms", body: object.dealTerms.trim() },
+      { heading: "Investment thesis", body: object.investmentThesis.trim() },
+    ],
+  };
+}
@@ -0,0 +1,137 @@
+import PDFDocument from "pdfkit";
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { SimDocument } from "./content";
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Model output separates paragraphs with blank lines
+const toParagraphs = (body: string) =>
+  body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+/**
+ * Lays the SIM out as an A4 PDF
+ */
+export function renderSimPdf(sim: SimDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({
+      size: "A4",
+      margin: 56,
+      info: { Title: sim.title, Subject: "Summary Information Memorandum" },
+    });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    pdf.font("Helvetica-Bold").fontSize(20).text(sim.title);
+    pdf.moveDown(0.3);
+    pdf.font("Helvetica-Oblique").fontSize(11).text(sim.caption);
+    pdf
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor("gray")
+      .text(
+        `Summary Information Memorandum, generated ${formatDate(sim.generatedAt)}`
+      )
+      .fillColor("black");
+
+    pdf.moveDown();
+    pdf.font("Helvetica-Bold").fontSize(14).text("Key financials");
+    pdf.moveDown(0.3);
+    for (const { label, value } of sim.financials) {
+      const y = pdf.y;
+      pdf.font("Helvetica").fontSize(10).text(label, pdf.page.margins.left, y);
+      pdf.text(value, pdf.page.margins.left + 200, y);
+    }
+    pdf.x = pdf.page.margins.left;
+
+    for (const section of sim.sections) {
+      pdf.moveDown();
+      pdf.font("Helvetica-Bold").fontSize(14).text(section.heading);
+      pdf.moveDown(0.3);
+      for (const paragraph of toParagraphs(section.body)) {
+        pdf.font("Helvetica").fontSize(10).text(paragraph, { align: "justify" });
+        pdf.moveDown(0.5);
+      }
+    }
+
+    pdf.end();
+  });
+}
+
+/**
+ * Lays the SIM out as a Word document
+ */
+export function renderSimDocx(sim: SimDocument): Promise<Buffer> {
+  const financialsTable = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: sim.financials.map(
+      ({ label, value }) =>
+        new TableRow({
+          children: [
+            new TableCell({
+              children: [
+                new Paragraph({
+                  children: [new TextRun({ text: label, bold: true })],
+                }),
+              ],
+            }),
+            new TableCell({ children: [new Paragraph(value)] }),
+          ],
+        })
+    ),
+  });
+
+  const document = new Document({
+    title: sim.title,
+    subject: "Summary Information Memorandum",
+    sections: [
+      {
+        children: [
+          new Paragraph({ text: sim.title, heading: HeadingLevel.TITLE }),
+          new Paragraph({
+            children: [new TextRun({ text: sim.caption, italics: true })],
+          }),
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `Summary Information Memorandum, generated ${formatDate(sim.generatedAt)}`,
+                color: "808080",
+                size: 18,
+              }),
+            ],
+          }),
+          new Paragraph({
+            text: "Key financials",
+            heading: HeadingLevel.HEADING_1,
+          }),
+          financialsTable,
+          ...sim.sections.flatMap((section) => [
+            new Paragraph({
+              text: section.heading,
+              heading: HeadingLevel.HEADING_1,
+            }),
+            ...toParagraphs(section.body).map(
+              (paragraph) => new Paragraph(paragraph)
+            ),
+          ]),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,112 @@
+import path from "path";
+import { mkdir, writeFile } from "fs/promises";
+
+export type StorageBackend = {
+  name: string;
+  /**
+   * Stores the file under the key, replacing any previous one
+   * @returns The URL the file can be fetched from
+   */
+  put: (key: string, body: Buffer, contentType: string) => Promise<string>;
+};
+
+const GCS_UPLOAD_URL = "https://storage.googleapis.com/upload/storage/v1/b";
+const GCS_TOKEN_URL =
+  "http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/token";
+
+/**
+ * Writes files under a directory; used in development and tests
+ */
+export function createLocalStorageBackend(root: string): StorageBackend {
+  return {
+    name: "local",
+    async put(key, body) {
+      const filePath = path.resolve(root, key);
+      if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+        throw new Error(`Storage key ${key} escapes the storage directory`);
+      }
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      return `file://${filePath}`;
+    },
+  };
+}
+
+async function getGcsAccessToken() {
+  if (process.env.GCS_ACCESS_TOKEN) return process.env.GCS_ACCESS_TOKEN;
+
+  // Cloud Run hands out tokens of the service account through the metadata server
+  const response = await fetch(GCS_TOKEN_URL, {
+    headers: { "Metadata-Flavor": "Google" },
+  });
+  if (!response.ok) {
+    throw new Error(`Metadata server responded with ${response.status}`);
+  }
+  const { access_token } = (await response.json()) as { access_token: string };
+  return access_token;
+}
+
+/**
+ * Uploads files to a Google Cloud Storage bucket through its JSON API
+ */
+export function createGcsStorageBackend(bucket: string): StorageBackend {
+  return {
+    name: "gcs",
+    async put(key, body, contentType) {
+      const response = await fetch(
+        `${GCS_UPLOAD_URL}/${bucket}/o?uploadType=media&name=${encodeURIComponent(key)}`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${await getGcsAccessToken()}`,
+            "Content-Type": contentType,
+          },
+          body: new Uint8Array(body),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Upload of ${key} to bucket ${bucket} failed with status ${response.status}`
+        );
+      }
+      return `https://storage.googleapis.com/${bucket}/${key
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/")}`;
+    },
+  };
+}
+
+let storageBackend: StorageBackend | null = null;
+
+/**
+ * Returns the backend selected by STORAGE_BACKEND: `local` (default, under
+ * STORAGE_LOCAL_DIR) or `gcs` (into STORAGE_GCS_BUCKET)
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!storageBackend) {
+    const backend = process.env.STORAGE_BACKEND || "local";
+    if (backend === "gcs") {
+      if (!process.env.STORAGE_GCS_BUCKET) {
+        throw new Error("STORAGE_GCS_BUCKET is required by the gcs backend");
+      }
+      storageBackend = createGcsStorageBackend(process.env.STORAGE_GCS_BUCKET);
+    } else if (backend === "local") {
+      storageBackend = createLocalStorageBackend(
+        process.env.STORAGE_LOCAL_DIR || "./storage"
+      );
+    } else {
+      throw new Error(
+        `Unknown storage backend "${backend}", expected local or gcs`
+      );
+    }
+  }
+  return storageBackend;
+}
+
+/**
+ * Replaces the storage backend, e.g. with a temporary directory in tests
+ */
+export function setStorageBackend(backend: StorageBackend | null) {
+  storageBackend = backend;
+}
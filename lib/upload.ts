@@ -0,0 +1,50 @@
+import type { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { detectDocumentFormat } from "./documents/extract-text";
+
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || 25 * 1024 * 1024;
+
+// Configure multer to store files in memory by default.
+// Swap to disk storage if needed in the future.
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!detectDocumentFormat(file.mimetype, file.originalname)) {
+      return cb(
+        new multer.MulterError("LIMIT_UNEXPECTED_FILE", file.fieldname)
+      );
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Runs the multer middleware and turns its errors into 4xx responses
+ */
+export function handleSingleUpload(fieldName: string) {
+  const middleware = upload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    middleware(req, res, (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({
+            error: `File too large, maximum size is ${MAX_UPLOAD_BYTES} bytes`,
+          });
+        }
+        if (err.code === "LIMIT_UNEXPECTED_FILE") {
+          return res.status(415).json({
+            error: "Unsupported file type, expected PDF, DOCX, XLSX, TXT or Markdown",
+          });
+        }
+        return res.status(400).json({ error: err.message });
+      }
+
+      next(err);
+    });
+  };
+}
@@ -1,28 +1,26 @@
-export async function splitContentIntoChunks(
-  transcript: string,
-  chunkSize: number = 7000,
-  overlap: number = 1000
-): Promise<string[]> {
-  const words = transcript.split(" ");
-  const chunks: string[] = [];
-  let currentChunk: string[] = [];
-  let currentLength = 0;
+// "Page 3", "Page 3 of 12", "3 of 12", "3 / 12" or "- 3 -" on a line of its
+// own; bare numbers are kept, as they may be figures or table cells
+const PAGE_NUMBER_LINE =
+  /^(page\s+\d+(\s*(of|\/)\s*\d+)?|\d+\s*(of|\/)\s*\d+|[-\u2013\u2014]\s*\d+\s*[-\u2013\u2014])$/i;
 
-  for (const word of words) {
-    if (currentLength + word.length > chunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.join(" "));
-      // Keep last few words for overlap
-      const overlapWords = currentChunk.slice(-Math.floor(overlap / 10));
-      currentChunk = [...overlapWords];
-      currentLength = overlapWords.join(" ").length;
-    }
-    currentChunk.push(word);
-    currentLength += word.length + 1; // +1 for space
-  }
-
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk.join(" "));
-  }
-
-  return chunks;
+/**
+ * Normalizes text extracted from a document: unifies line endings, strips
+ * page-number lines and control characters, collapses runs of spaces and
+ * rejoins words hyphenated across line breaks. Tabs are kept, since they
+ * separate table cells.
+ */
+export function normalizeDocumentText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/\u00A0/g, " ")
+    .replace(/(\w)-\n(\w)/g, "$1$2")
+    .split("\n")
+    .map((line) =>
+      line.trim() ? line.replace(/ +/g, " ").replace(/^ | $/g, "") : ""
+    )
+    .filter((line) => !PAGE_NUMBER_LINE.test(line.trim()))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
 }
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import redis from "../lib/redis";
+import { getBatchSummary } from "../lib/jobs/batch-store";
+import { batchQuerySchema } from "../lib/schemas/batch-query-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.get(
+  "/batches/:batchId",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    const validatedQuery = batchQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    try {
+      const batch = await getBatchSummary(
+        req.params.batchId!,
+        validatedQuery.data.top
+      );
+      if (!batch) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+      return res.json(batch);
+    } catch (error) {
+      logger.error("GET /batches/:batchId error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { timingSafeEqual } from "crypto";
+import { importBitrixDeal } from "../lib/bitrix/import-deal";
+import { enqueueDealScreening } from "../lib/queue/deal-listings-queue";
+import { bitrixEventSchema } from "../lib/schemas/bitrix-event-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+const DEAL_EVENTS = ["ONCRMDEALADD", "ONCRMDEALUPDATE"];
+
+function isValidApplicationToken(token: string) {
+  const expected = process.env.BITRIX_APPLICATION_TOKEN;
+  if (!expected) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const tokenBuffer = Buffer.from(token);
+  return (
+    expectedBuffer.length === tokenBuffer.length &&
+    timingSafeEqual(expectedBuffer, tokenBuffer)
+  );
+}
+
+// Bitrix24 outbound webhooks post form-encoded bodies such as
+// event=ONCRMDEALADD&data[FIELDS][ID]=42&auth[application_token]=...
+router.post("/bitrix/events", async (req: Request, res: Response) => {
+  const validatedEvent = bitrixEventSchema.safeParse(req.body);
+  if (!validatedEvent.success) {
+    logger.error("Invalid Bitrix event", { error: validatedEvent.error });
+    return res.status(400).json({ error: "Invalid payload" });
+  }
+
+  const { event, data, auth } = validatedEvent.data;
+
+  if (!isValidApplicationToken(auth.application_token)) {
+    logger.warn(`Rejected Bitrix ${event} with invalid application token`);
+    return res.status(401).json({ error: "Invalid application token" });
+  }
+
+  if (!DEAL_EVENTS.includes(event)) {
+    logger.info(`Ignoring Bitrix event ${event}`);
+    return res.status(200).json({ ignored: true });
+  }
+
+  const bitrixDealId = data.FIELDS.ID;
+
+  try {
+    const { dealId, created } = await importBitrixDeal(bitrixDealId);
+
+    const screenerId = process.env.BITRIX_DEFAULT_SCREENER_ID;
+    const shouldScreen =
+      screenerId &&
+      (created || process.env.BITRIX_SCREEN_ON_UPDATE === "true");
+    const queued = shouldScreen
+      ? await enqueueDealScreening(dealId, screenerId)
+      : false;
+
+    return res.status(200).json({ dealId, created, screeningQueued: queued });
+  } catch (error) {
+    logger.error(`Failed to import Bitrix deal ${bitrixDealId}`, { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { diffScreenings } from "../lib/actions/diff-screenings";
+import { checkDealFinancials } from "../lib/actions/check-deal-financials";
+import { findComparableDeals } from "../lib/deals/comparables";
+import { screeningDiffQuerySchema } from "../lib/schemas/screening-diff-query-schema";
+import { comparablesQuerySchema } from "../lib/schemas/comparables-query-schema";
+import { financialChecksQuerySchema } from "../lib/schemas/financial-checks-query-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.get(
+  "/deals/:dealId/screenings/diff",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedQuery = screeningDiffQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    try {
+      const result = await diffScreenings(
+        req.params.dealId!,
+        validatedQuery.data.from,
+        validatedQuery.data.to
+      );
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      return res.json(result.diff);
+    } catch (error) {
+      logger.error("GET /deals/:dealId/screenings/diff error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.get(
+  "/deals/:dealId/comparables",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedQuery = comparablesQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    try {
+      const { limit, screenerId, screenedOnly, text } = validatedQuery.data;
+      const comparables = await findComparableDeals(req.params.dealId!, {
+        limit,
+        screenerId,
+        screenedOnly,
+        includeText: text,
+      });
+
+      if (!comparables) {
+        return res.status(404).json({ error: "Deal not found" });
+      }
+      return res.json({ comparables });
+    } catch (error) {
+      logger.error("GET /deals/:dealId/comparables error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.get(
+  "/deals/:dealId/financial-checks",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedQuery = financialChecksQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    try {
+      const result = await checkDealFinancials(
+        req.params.dealId!,
+        validatedQuery.data.screenerId
+      );
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      return res.json({
+        dealId: result.dealId,
+        screenerId: result.screenerId,
+        ...result.checks,
+      });
+    } catch (error) {
+      logger.error("GET /deals/:dealId/financial-checks error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
@@ -1,18 +1,55 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
-import multer from "multer";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { fileUploadSchema } from "../lib/schemas/file-upload-schema";
+import { handleSingleUpload } from "../lib/upload";
+import { ingestDealDocument } from "../lib/actions/ingest-deal-document";
+import { logger } from "../lib/observability/logger";
 
 const router = Router();
 
-// Configure multer to store files in memory by default.
-// Swap to disk storage if needed in the future.
-const upload = multer({ storage: multer.memoryStorage() });
-
 router.post(
   "/file-upload",
-  upload.single("file"),
+  requireApiAuth,
+  handleSingleUpload("file"),
   async (req: Request, res: Response) => {
-    return res.status(200).json({ ok: true });
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const validatedBody = fileUploadSchema.safeParse(req.body);
+    if (!validatedBody.success) {
+      logger.error("Invalid file upload body", { error: validatedBody.error });
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const result = await ingestDealDocument({
+        ...validatedBody.data,
+        file: {
+          buffer: req.file.buffer,
+          mimeType: req.file.mimetype,
+          fileName: req.file.originalname,
+          size: req.file.size,
+        },
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      const { extractedText, ...document } = result.document;
+      return res.status(201).json({
+        ok: true,
+        document: {
+          ...document,
+          extractedCharacters: extractedText?.length ?? 0,
+        },
+      });
+    } catch (error) {
+      logger.error("/file-upload error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
   }
 );
 
@@ -0,0 +1,179 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import redis from "../lib/redis";
+import {
+  getJob,
+  isFinishedStatus,
+  listJobs,
+  updateJob,
+} from "../lib/jobs/job-store";
+import { requestJobCancellation } from "../lib/jobs/cancellation";
+import { subscribeToJobUpdates } from "../lib/jobs/job-events";
+import type { JobUpdateMessage } from "../lib/jobs/job-events";
+import { listJobsQuerySchema } from "../lib/schemas/list-jobs-query-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.get("/jobs", requireApiAuth, async (req: Request, res: Response) => {
+  if (!redis) {
+    return res.status(503).json({ error: "Redis not configured" });
+  }
+
+  const validatedQuery = listJobsQuerySchema.safeParse(req.query);
+  if (!validatedQuery.success) {
+    return res.status(400).json({ error: "Invalid query" });
+  }
+
+  try {
+    const jobs = await listJobs(validatedQuery.data);
+    return res.json({ jobs });
+  } catch (error) {
+    logger.error("GET /jobs error", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get(
+  "/jobs/:jobId",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    try {
+      const job = await getJob(req.params.jobId!);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      return res.json(job);
+    } catch (error) {
+      logger.error("GET /jobs/:jobId error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.delete(
+  "/jobs/:jobId",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    try {
+      const jobId = req.params.jobId!;
+      const job = await getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (isFinishedStatus(job.status)) {
+        return res
+          .status(409)
+          .json({ error: `Job already ${job.status}`, status: job.status });
+      }
+
+      await requestJobCancellation(jobId);
+
+      // An abandoned job isn't running anywhere, so nobody else will report it
+      if (job.status === "retrying") {
+        await updateJob(jobId, { status: "cancelled", error: "Cancelled" });
+        return res.json({ jobId, status: "cancelled" });
+      }
+
+      logger.info(`Requested cancellation of job ${jobId}`, { jobId });
+      return res.status(202).json({ jobId, status: "cancelling" });
+    } catch (error) {
+      logger.error("DELETE /jobs/:jobId error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+const SSE_HEARTBEAT_MS = 15000;
+
+router.get(
+  "/jobs/:jobId/events",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    const jobId = req.params.jobId!;
+    let eventId = 0;
+    const send = (event: string, data: unknown) => {
+      res.write(
+        `id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+      );
+    };
+
+    let unsubscribe: (() => void) | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+    const cleanup = () => {
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe?.();
+    };
+
+    try {
+      // Subscribe before reading the snapshot so no update falls in between
+      const buffered: JobUpdateMessage[] = [];
+      let replayed = false;
+      unsubscribe = await subscribeToJobUpdates(jobId, (message) => {
+        if (!replayed) {
+          buffered.push(message);
+          return;
+        }
+        send("update", message);
+        if (isFinishedStatus(message.status)) {
+          cleanup();
+          res.end();
+        }
+      });
+
+      const job = await getJob(jobId);
+      if (!job) {
+        cleanup();
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      // Every (re)connect starts with the latest known state
+      send("snapshot", job);
+      replayed = true;
+      for (const message of buffered) send("update", message);
+
+      if (
+        isFinishedStatus(job.status) ||
+        buffered.some((message) => isFinishedStatus(message.status))
+      ) {
+        cleanup();
+        return res.end();
+      }
+
+      heartbeat = setInterval(
+        () => res.write(": heartbeat\n\n"),
+        SSE_HEARTBEAT_MS
+      );
+      req.on("close", cleanup);
+    } catch (error) {
+      cleanup();
+      logger.error("GET /jobs/:jobId/events error", { error });
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      res.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { logger } from "../lib/observability/logger";
+import { metricsRegistry } from "../lib/observability/metrics";
+
+const router = Router();
+
+// Prometheus scrape endpoint; scrapers send the API key as a bearer token
+router.get("/metrics", requireApiAuth, async (req: Request, res: Response) => {
+  try {
+    res.set("Content-Type", metricsRegistry.contentType);
+    return res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error("GET /metrics error", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,294 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requirePubSubAuth } from "../lib/auth/pubsub-auth";
+import { isUserBlocked } from "../lib/auth/users";
+import { jobEnvelopeSchema } from "../lib/schemas/job-envelope-schema";
+import redis from "../lib/redis";
+import { updateJob, updateJobProgress } from "../lib/jobs/job-store";
+import { getJobHandler } from "../lib/jobs/registry";
+import { isDraining, trackInFlightJob } from "../lib/jobs/in-flight";
+import {
+  getJobTimeoutMs,
+  startCancellableJob,
+} from "../lib/jobs/cancellation";
+import type { CancellableJob } from "../lib/jobs/cancellation";
+import { getUserBudgetStatus } from "../lib/ai/usage";
+import { runWithJobContext } from "../lib/observability/context";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+// Pub/Sub push endpoint for every job type; /screen-deal is kept for
+// existing subscriptions
+router.post(
+  ["/pubsub/jobs", "/screen-deal"],
+  requirePubSubAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      logger.error("Redis not configured");
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    // Check Redis connection status
+    if (redis.status !== "ready") {
+      logger.error("Redis not ready", { status: redis.status });
+      return res.status(503).json({ error: "Redis not ready" });
+    }
+
+    // A non-2xx response makes Pub/Sub redeliver the message to another
+    // instance
+    if (isDraining()) {
+      return res.status(503).json({ error: "Shutting down" });
+    }
+
+    let jobId: string | null = null;
+    let releaseJob: (() => void) | null = null;
+    try {
+      const pubsubMessage = req.body.message;
+      if (!pubsubMessage) return res.status(400).send("no message");
+
+      // Redelivering a message that can't be parsed or that no handler can run
+      // would never succeed, so those are acked with a failed job
+      const dataStr = Buffer.from(
+        pubsubMessage.data ?? "",
+        "base64"
+      ).toString();
+      let payload: unknown;
+      try {
+        payload = JSON.parse(dataStr);
+      } catch (error) {
+        logger.error("Dropping Pub/Sub message that isn't JSON", {
+          messageId: pubsubMessage.messageId,
+          error,
+        });
+        return res.status(204).send();
+      }
+
+      const envelope = jobEnvelopeSchema.safeParse(payload);
+      if (!envelope.success) {
+        const rawJobId = (payload as { jobId?: unknown } | null)?.jobId;
+        logger.error("Dropping job with an invalid payload", {
+          jobId: rawJobId,
+          error: envelope.error,
+        });
+        if (typeof rawJobId === "string") {
+          await updateJob(rawJobId, {
+            status: "failed",
+            error: "Invalid payload",
+          });
+        }
+        return res.status(204).send();
+      }
+
+      const { userId } = envelope.data;
+      jobId = envelope.data.jobId;
+
+      // /screen-deal screened every message whatever its jobType, so its
+      // publishers may send any value; those still run as screenings
+      const jobType =
+        req.path === "/screen-deal" && !getJobHandler(envelope.data.jobType)
+          ? "screen-deal"
+          : envelope.data.jobType;
+      const handler = getJobHandler(jobType);
+      if (!handler) {
+        logger.warn(`Dropping job of unknown type ${jobType}`, {
+          jobId,
+          jobType,
+        });
+        await updateJob(jobId, {
+          status: "failed",
+          jobType,
+          userId,
+          error: `Unknown job type "${jobType}"`,
+        });
+        return res.status(204).send();
+      }
+
+      const parsed = handler.parse(payload);
+      if (!parsed.success) {
+        logger.error(`Dropping ${jobType} job with an invalid payload`, {
+          jobId,
+          error: parsed.error,
+        });
+        await updateJob(jobId, {
+          status: "failed",
+          jobType,
+          userId,
+          error: "Invalid payload",
+        });
+        return res.status(204).send();
+      }
+      const { dealId, screenerId } = parsed.job;
+
+      logger.info("Starting job processing", {
+        jobId,
+        dealId,
+        screenerId,
+        userId,
+        jobType,
+      });
+
+      // Deduplication: prevent reprocessing Pub/Sub retries or duplicate events
+      const messageId: string | undefined = req.body?.message?.messageId;
+      const dedupKey = messageId ? `pubsub:processed:${messageId}` : null;
+      const jobKey = `job:${jobId}:processed`;
+
+      // If either the message or job has already been processed, skip
+      const [hasMessage, hasJob] = await Promise.all([
+        dedupKey ? redis.exists(dedupKey) : Promise.resolve(0),
+        redis.exists(jobKey),
+      ]);
+
+      if ((dedupKey && hasMessage === 1) || hasJob === 1) {
+        logger.info("Duplicate job or message, skipping", { jobId, messageId });
+        return res.status(204).send();
+      }
+
+      // Atomically set dedup markers with expirations
+      const multi = redis.multi();
+      if (dedupKey) multi.set(dedupKey, "1", "EX", 3600); // 1 hour for message id
+      multi.set(jobKey, "1", "EX", 86400); // 24 hours for job id
+      await multi.exec();
+
+      // If shutdown abandons the job, stop it and clear the dedup markers so
+      // the redelivered message is processed again
+      const abandonedJobId = jobId;
+      let job: CancellableJob | null = null;
+      releaseJob = trackInFlightJob(jobId, async () => {
+        job?.abandon();
+        await redis!.del(...(dedupKey ? [dedupKey, jobKey] : [jobKey]));
+        await updateJob(abandonedJobId, {
+          status: "retrying",
+          error: "Worker shut down before the job finished",
+        });
+        if (!res.headersSent) {
+          res.status(503).json({ error: "Shutting down" });
+        }
+      });
+
+      if (await isUserBlocked(userId)) {
+        logger.warn("Rejecting job for blocked user", { jobId, userId });
+        await updateJob(jobId, {
+          status: "failed",
+          jobType,
+          userId,
+          dealId,
+          screenerId,
+          error: "User is blocked",
+        });
+        // Retrying would be rejected the same way, so ack the message
+        return res.status(204).send();
+      }
+
+      const budget = await getUserBudgetStatus(userId);
+      if (budget.exceeded) {
+        const spent = budget.spentUsd.toFixed(2);
+        const message = `Monthly AI budget of $${budget.budgetUsd} used up ($${spent} spent)`;
+        logger.warn(`Rejecting job over budget: ${message}`, { jobId, userId });
+        await updateJob(jobId, {
+          status: "failed",
+          jobType,
+          userId,
+          dealId,
+          screenerId,
+          error: message,
+        });
+        // Retrying would be rejected the same way, so ack the message
+        return res.status(204).send();
+      }
+
+      // Update status to processing
+      await updateJob(jobId, {
+        status: "processing",
+        jobType,
+        userId,
+        dealId,
+        screenerId,
+      });
+      logger.info(`Updated job ${jobId} status to processing in Redis`);
+
+      // Shutdown abandoned the job before it started
+      if (res.headersSent) return;
+
+      const currentJobId = jobId;
+      job = await startCancellableJob(
+        jobId,
+        getJobTimeoutMs(jobType, handler.timeoutMs)
+      );
+      const result = await runWithJobContext(
+        { jobId, userId, dealId, screenerId },
+        () =>
+          parsed.job.run({
+            jobId: currentJobId,
+            signal: job.signal,
+            reportProgress: (progress) =>
+              updateJobProgress(currentJobId, progress),
+          })
+      ).finally(job.release);
+
+      // The abandon callback already answered and marked the job for a retry
+      if (job.abandoned()) return;
+
+      if (!result.success && job.cancelled()) {
+        logger.info(`Job ${jobId} cancelled`, { jobId });
+        await updateJob(jobId, { status: "cancelled", error: "Cancelled" });
+        return res.status(204).send();
+      }
+
+      if (!result.success && job.timedOut()) {
+        const message = `Timed out after ${job.timeoutMs / 1000}s`;
+        logger.error(`Job ${jobId} ${message.toLowerCase()}`, { jobId });
+        await updateJob(jobId, { status: "failed", error: message });
+        return res.status(504).json({ error: message });
+      }
+
+      if (!result.success) {
+        logger.error(`Failed to run ${jobType} job`, {
+          jobId,
+          error: result.message,
+        });
+        // Mark job as failed and publish update
+        await updateJob(jobId, {
+          status: "failed",
+          error: result.message,
+        });
+        return res.status(500).json({ error: result.message || "Job failed" });
+      }
+
+      // The handler handed the job off, e.g. a batch to its queued children
+      if (result.detached) {
+        logger.info(`Job ${jobId} handed off, finishing in the background`);
+        return res.status(204).send();
+      }
+
+      // Update status to done
+      await updateJob(jobId, {
+        status: "done",
+        aiScreeningId: result.aiScreeningId,
+        simId: result.simId,
+      });
+      logger.info(`Job ${jobId} completed successfully`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`${req.path} error`, { error });
+
+      // Try to publish error status if we have jobId
+      try {
+        if (jobId) {
+          await updateJob(jobId, {
+            status: "failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      } catch (publishError) {
+        logger.error("Failed to publish error status", { error: publishError });
+      }
+
+      return res.status(500).json({ error: "Internal server error" });
+    } finally {
+      releaseJob?.();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,109 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import redis from "../lib/redis";
+import {
+  getQueueStats,
+  listDeadLetters,
+  processQueueBatch,
+  replayDeadLetters,
+} from "../lib/queue/deal-listings-queue";
+import {
+  deadLetterQuerySchema,
+  processQueueSchema,
+  replayDeadLettersSchema,
+} from "../lib/schemas/queue-schemas";
+import { isDraining } from "../lib/jobs/in-flight";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.post(
+  "/process-queue",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    if (isDraining()) {
+      return res.status(503).json({ error: "Shutting down" });
+    }
+
+    const validatedBody = processQueueSchema.safeParse(req.body ?? {});
+    if (!validatedBody.success) {
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const processed = await processQueueBatch(validatedBody.data.maxItems);
+      const stats = await getQueueStats();
+      return res.json({ processed, queue: stats });
+    } catch (error) {
+      logger.error("/process-queue error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.get("/queue", requireApiAuth, async (req: Request, res: Response) => {
+  if (!redis) {
+    return res.status(503).json({ error: "Redis not configured" });
+  }
+
+  try {
+    return res.json(await getQueueStats());
+  } catch (error) {
+    logger.error("GET /queue error", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get(
+  "/queue/dead-letter",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    const validatedQuery = deadLetterQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    try {
+      const { offset, limit } = validatedQuery.data;
+      const items = await listDeadLetters(offset, limit);
+      return res.json({ items });
+    } catch (error) {
+      logger.error("GET /queue/dead-letter error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.post(
+  "/queue/dead-letter/replay",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    if (!redis) {
+      return res.status(503).json({ error: "Redis not configured" });
+    }
+
+    const validatedBody = replayDeadLettersSchema.safeParse(req.body ?? {});
+    if (!validatedBody.success) {
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const replayed = await replayDeadLetters(validatedBody.data.count);
+      return res.json({ replayed });
+    } catch (error) {
+      logger.error("/queue/dead-letter/replay error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
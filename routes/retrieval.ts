@@ -0,0 +1,83 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { reindexAll, searchIndex } from "../lib/retrieval/retrieval-index";
+import { ragScreenDeal } from "../lib/actions/rag-screen-deal";
+import {
+  ragScreeningSchema,
+  reindexSchema,
+  retrievalSearchQuerySchema,
+} from "../lib/schemas/retrieval-schemas";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.get(
+  "/retrieval/search",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedQuery = retrievalSearchQuerySchema.safeParse(req.query);
+    if (!validatedQuery.success) {
+      return res.status(400).json({ error: "Invalid query" });
+    }
+
+    const { q, sourceType, ...options } = validatedQuery.data;
+
+    try {
+      const passages = await searchIndex(q, {
+        ...options,
+        sourceTypes: sourceType ? [sourceType] : undefined,
+      });
+      return res.json({ passages });
+    } catch (error) {
+      logger.error("GET /retrieval/search error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.post(
+  "/retrieval/reindex",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedBody = reindexSchema.safeParse(req.body ?? {});
+    if (!validatedBody.success) {
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const indexed = await reindexAll(validatedBody.data.sourceTypes);
+      return res.json({ indexed });
+    } catch (error) {
+      logger.error("/retrieval/reindex error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.post(
+  "/retrieval/screen",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedBody = ragScreeningSchema.safeParse(req.body);
+    if (!validatedBody.success) {
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const result = await ragScreenDeal(
+        validatedBody.data.dealId,
+        validatedBody.data.screenerId
+      );
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      return res.json({ result: result.result, sources: result.sources });
+    } catch (error) {
+      logger.error("/retrieval/screen error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
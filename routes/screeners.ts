@@ -0,0 +1,91 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { screenerUploadSchema } from "../lib/schemas/screener-upload-schema";
+import { handleSingleUpload } from "../lib/upload";
+import { ingestScreener } from "../lib/actions/ingest-screener";
+import { updateFinancialRules } from "../lib/actions/update-financial-rules";
+import { financialRulesSchema } from "../lib/schemas/financial-rules-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.post(
+  "/screeners",
+  requireApiAuth,
+  handleSingleUpload("file"),
+  async (req: Request, res: Response) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const validatedBody = screenerUploadSchema.safeParse(req.body);
+    if (!validatedBody.success) {
+      logger.error("Invalid screener upload body", {
+        error: validatedBody.error,
+      });
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const result = await ingestScreener({
+        ...validatedBody.data,
+        file: {
+          buffer: req.file.buffer,
+          mimeType: req.file.mimetype,
+          fileName: req.file.originalname,
+        },
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      const { screener, action, version, rescreenQueued } = result;
+      const created = action === "created" || action === "versioned";
+      return res.status(created ? 201 : 200).json({
+        screenerId: screener.id,
+        name: screener.name,
+        fileUrl: screener.fileUrl,
+        contentLength: screener.content.length,
+        version,
+        action,
+        rescreenQueued,
+      });
+    } catch (error) {
+      logger.error("/screeners error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+router.put(
+  "/screeners/:screenerId/financial-rules",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    const validatedBody = financialRulesSchema.safeParse(req.body);
+    if (!validatedBody.success) {
+      logger.error("Invalid financial rules", { error: validatedBody.error });
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    try {
+      const result = await updateFinancialRules(
+        req.params.screenerId!,
+        validatedBody.data
+      );
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      return res.json({ screenerId: result.screenerId, rules: result.rules });
+    } catch (error) {
+      logger.error("PUT /screeners/:screenerId/financial-rules error", {
+        error,
+      });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireApiAuth } from "../lib/auth/api-auth";
+import { getUsageSummary, getUserBudgetStatus } from "../lib/ai/usage";
+import { usageQuerySchema } from "../lib/schemas/usage-query-schema";
+import { logger } from "../lib/observability/logger";
+
+const router = Router();
+
+router.get("/usage", requireApiAuth, async (req: Request, res: Response) => {
+  const validatedQuery = usageQuerySchema.safeParse(req.query);
+  if (!validatedQuery.success) {
+    return res.status(400).json({ error: "Invalid query" });
+  }
+
+  const { from, to, groupBy, ...filters } = validatedQuery.data;
+
+  try {
+    const usage = await getUsageSummary({ from, to, groupBy, filters });
+    return res.json({ usage });
+  } catch (error) {
+    logger.error("GET /usage error", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get(
+  "/usage/users/:userId/budget",
+  requireApiAuth,
+  async (req: Request, res: Response) => {
+    try {
+      return res.json(await getUserBudgetStatus(req.params.userId!));
+    } catch (error) {
+      logger.error("GET /usage/users/:userId/budget error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
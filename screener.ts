@@ -1,16 +1,11 @@
-import { createClient } from "redis";
-import http from "http";
+import type { AiScreening } from "@prisma/client";
+import { runScreeningPipeline } from "./lib/screening/pipeline";
+import { logger } from "./lib/observability/logger";
 
-import prismaDB from "./lib/prisma";
-import { splitContentIntoChunks } from "./lib/utils";
-import { generateObject, generateText } from "ai";
-import { openai } from "./lib/ai/available-models";
-import { z } from "zod";
+export const QUEUE = "dealListings";
+export const DONE_CHANNEL = "problem_done";
 
-const QUEUE = "dealListings";
-const DONE_CHANNEL = "problem_done";
-
-type Submission = {
+export type Submission = {
   id: string;
   brokerage: string;
   firstName: string;
@@ -44,202 +39,51 @@ type Submission = {
   screenerId: string;
   screenerContent: string;
   screenerName: string;
+  // The screener version screenerContent was taken from
+  screenerVersionId?: string;
+  // Re-run the models even when a cached screening matches
+  force?: boolean;
+  // Set on the children of a screen-batch job, see lib/screening/batch.ts
+  batchId?: string;
+  jobId?: string;
+  // Set when queued, so identical submissions keep separate attempts/claims
+  queueItemId?: string;
 };
 
-interface AIScreeningResult {
-  title: string;
-  score: number;
-  sentiment: "POSITIVE" | "NEGATIVE" | "NEUTRAL";
-  explanation: string;
-}
-
-/**
- * Generate final AI screening result
- */
-async function generateFinalSummary(
-  combinedSummary: string
-): Promise<AIScreeningResult | null> {
-  try {
-    console.log("Generating final AI screening result...");
-    const result = await generateObject({
-      model: openai("gpt-4o-mini"),
-      prompt: `Combine the following summaries into a single summary: ${combinedSummary}`,
-      schema: z.object({
-        title: z.string(),
-        score: z.number(),
-        sentiment: z.enum(["POSITIVE", "NEGATIVE", "NEUTRAL"]),
-        explanation: z.string(),
-      }),
-    });
-    console.log(
-      "Final AI screening result generated successfully:",
-      result.object
-    );
-    return result.object;
-  } catch (error) {
-    console.error("Error generating final summary:", error);
-    return null;
-  }
-}
-
 /**
- * Save AI screening result to database
+ * Process a single submission through the screening pipeline
+ * @param signal - Aborts the model calls, e.g. when the item times out
+ * @returns The saved screening
+ * @throws With the failing stage's message, so the queue can record it
  */
-async function saveAIScreeningResult(
-  submissionId: string,
-  result: AIScreeningResult,
-  combinedSummary: string
-): Promise<boolean> {
-  try {
-    console.log(
-      `Saving AI screening result to database for submission: ${submissionId}`
+async function processSubmission(
+  submission: Submission,
+  signal?: AbortSignal
+): Promise<AiScreening> {
+  logger.info(`=== Starting to process submission: ${submission.id} ===`);
+
+  const result = await runScreeningPipeline({
+    source: { type: "submission", submission },
+    screenerId: submission.screenerId,
+    force: submission.force,
+    signal,
+  });
+
+  if (!result.success) {
+    logger.error(
+      `=== Error processing submission ${submission.id} (${result.stage}): ${result.message}`
     );
-    await prismaDB.aiScreening.create({
-      data: {
-        dealId: submissionId,
-        title: result.title,
-        explanation: result.explanation,
-        score: result.score,
-        sentiment: result.sentiment,
-        content: combinedSummary,
-      },
-    });
-    console.log("AI screening result saved successfully to database");
-    return true;
-  } catch (error) {
-    console.error("Error saving AI screening result:", error);
-    return false;
+    throw new Error(result.message);
   }
-}
 
-/**
- * Process content chunks and generate summaries
- */
-async function processContentChunks(
-  chunks: string[],
-  dealInfo: Submission
-): Promise<string[]> {
-  console.log(
-    `Processing ${chunks.length} content chunks for deal: ${dealInfo.id}`
+  logger.info(
+    `=== Submission ${submission.id} processed successfully: ${result.evaluationId} ===`
   );
-  const summaries: string[] = [];
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    if (!chunk) {
-      console.warn(`Chunk ${i + 1} is undefined, skipping...`);
-      continue;
-    }
-    try {
-      console.log(
-        `Processing chunk ${i + 1}/${chunks.length} (${
-          chunk.length
-        } characters)`
-      );
-
-      const dealContext = {
-        title: dealInfo.title,
-        brokerage: dealInfo.brokerage,
-        dealCaption: dealInfo.dealCaption,
-        dealType: dealInfo.dealType,
-        ebitda: dealInfo.ebitda,
-        ebitdaMargin: dealInfo.ebitdaMargin,
-        companyLocation: dealInfo.companyLocation,
-        revenue: dealInfo.revenue,
-        caption: dealInfo.dealCaption,
-        industry: dealInfo.industry,
-      };
-
-      const prompt = `Based on this deal context: ${JSON.stringify(
-        dealContext
-      )}, evaluate the following text: ${chunk}`;
-
-      const summary = await generateText({
-        system:
-          "You are an expert AI Assistant that specializes in deal sourcing, evaluation and private equity in general",
-        model: openai("gpt-4o-mini"),
-        prompt,
-      });
-
-      console.log("summar generated by AI", summary.text);
-
-      summaries.push(summary.text);
-      console.log(`Chunk ${i + 1} processed successfully`);
-    } catch (error) {
-      console.error(`Error processing chunk ${i + 1}:`, error);
-      summaries.push(`[Error processing chunk]`);
-    }
-  }
-
-  return summaries;
-}
-
-/**
- * Process a single submission
- */
-async function processSubmission(submission: Submission): Promise<boolean> {
-  try {
-    console.log(`=== Starting to process submission: ${submission.id} ===`);
-
-    // Split content into chunks
-    console.log("Splitting content into chunks...");
-    const chunks = await splitContentIntoChunks(submission.screenerContent);
-    console.log(`Content split into ${chunks.length} chunks`);
-
-    if (chunks.length === 0) {
-      console.warn("No content chunks generated - submission will be skipped");
-      return false;
-    }
-
-    // Process chunks
-    console.log("Processing content chunks...");
-    const summaries = await processContentChunks(chunks, submission);
-    const combinedSummary = summaries.join("\n\n=== Next Section ===\n\n");
-    console.log(
-      `Combined summary length: ${combinedSummary.length} characters`
-    );
-
-    // Generate final result
-    console.log("Generating final AI screening result...");
-    const finalResult = await generateFinalSummary(combinedSummary);
-    if (!finalResult) {
-      console.error(
-        "Failed to generate final summary - submission processing failed"
-      );
-      return false;
-    }
-
-    // Save to database
-    console.log("Saving result to database...");
-    const saveSuccess = await saveAIScreeningResult(
-      submission.id,
-      finalResult,
-      combinedSummary
-    );
-
-    if (saveSuccess) {
-      console.log(
-        "Database save successful, publishing completion notification..."
-      );
-      console.log(`=== Submission ${submission.id} processed successfully ===`);
-      return true;
-    } else {
-      console.error("Database save failed - submission processing incomplete");
-      return false;
-    }
-  } catch (error) {
-    console.error(`=== Error processing submission ${submission.id}:`, error);
-    return false;
-  }
+  return result.data;
 }
 
 // Note: This file contains utility functions for processing submissions.
-// The main server is now handled by index.ts using Express.js
-// These functions can be imported and used by route handlers.
+// The main server is now handled by index.ts using Express.js and the
+// dealListings queue is consumed by lib/queue/deal-listings-queue.ts.
 
-export {
-  processSubmission,
-  processContentChunks,
-  generateFinalSummary,
-  saveAIScreeningResult,
-};
+export { processSubmission };
@@ -0,0 +1,79 @@
+import express from "express";
+
+// A stand-in for a Bitrix24 portal's REST API, for trying the worker locally:
+//   BITRIX_WEBHOOK_URL=http://localhost:8090/rest/1/mock-token bun run start
+// Requests are logged and deals are kept in memory.
+
+const app = express();
+app.use(express.json({ limit: "10mb" }));
+app.use(express.urlencoded({ extended: true }));
+
+const deals = new Map<string, Record<string, unknown>>();
+const timeline: Record<string, unknown>[] = [];
+
+// Set MOCK_BITRIX_FAIL=true to exercise the worker's retry queue
+const shouldFail = () => process.env.MOCK_BITRIX_FAIL === "true";
+
+app.post("/rest/:userId/:token/:method.json", (req, res) => {
+  const method = req.params.method;
+  const params = req.body ?? {};
+  console.log(`➡️ ${method}`, JSON.stringify(params));
+
+  if (shouldFail()) {
+    return res.status(503).json({
+      error: "QUERY_LIMIT_EXCEEDED",
+      error_description: "Mock failure",
+    });
+  }
+
+  switch (method) {
+    case "crm.deal.get": {
+      const deal = deals.get(String(params.id));
+      if (!deal) {
+        return res
+          .status(400)
+          .json({ error: "NOT_FOUND", error_description: "Not found" });
+      }
+      return res.json({ result: deal });
+    }
+    case "crm.deal.update": {
+      const id = String(params.id);
+      deals.set(id, { ...(deals.get(id) ?? { ID: id }), ...params.fields });
+      return res.json({ result: true });
+    }
+    case "crm.deal.add": {
+      const id = String(deals.size + 1);
+      deals.set(id, { ID: id, ...params.fields });
+      return res.json({ result: Number(id) });
+    }
+    case "crm.timeline.comment.add": {
+      timeline.push(params.fields);
+      return res.json({ result: timeline.length });
+    }
+    case "crm.deal.contact.items.get":
+      return res.json({ result: [{ CONTACT_ID: "1", IS_PRIMARY: "Y" }] });
+    case "crm.contact.get":
+      return res.json({
+        result: {
+          ID: String(params.id),
+          NAME: "Mock",
+          LAST_NAME: "Contact",
+          EMAIL: [{ VALUE: "mock.contact@example.com" }],
+          PHONE: [{ VALUE: "+1 555 0100" }],
+        },
+      });
+    default:
+      return res
+        .status(400)
+        .json({ error: "ERROR_METHOD_NOT_FOUND", error_description: method });
+  }
+});
+
+app.get("/_mock/state", (req, res) => {
+  res.json({ deals: Object.fromEntries(deals), timeline });
+});
+
+const PORT = Number(process.env.MOCK_BITRIX_PORT) || 8090;
+app.listen(PORT, () => {
+  console.log(`Mock Bitrix24 REST server listening on port ${PORT}`);
+});
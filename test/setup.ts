@@ -0,0 +1,23 @@
+import { mock } from "bun:test";
+
+// Unit tests run without a database: any query fails loudly, and a test that
+// needs one mocks the calls it expects
+const prismaDB = new Proxy(
+  {},
+  {
+    get: (_, model) =>
+      new Proxy(
+        {},
+        {
+          get: (_, method) => () =>
+            Promise.reject(
+              new Error(
+                `No database in tests: prismaDB.${String(model)}.${String(method)}`
+              )
+            ),
+        }
+      ),
+  }
+);
+
+mock.module("../lib/prisma", () => ({ default: prismaDB }));